@@ -0,0 +1,157 @@
+// Generates src/services/openapi.ts from the backend's OpenAPI spec (endpoints.json).
+//
+//   node scripts/generate-api.js          write the generated client
+//   node scripts/generate-api.js --check  exit 1 if the committed file is out of date
+//
+// Schemas become TypeScript interfaces and every operation becomes a typed
+// function on `createApiClient(axiosInstance)`. Operations whose response has
+// no schema in the spec return `unknown`, narrowed by a type parameter in
+// services/api.ts.
+
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const specPath = resolve(root, 'endpoints.json');
+const outputPath = resolve(root, 'src/services/openapi.ts');
+
+const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+
+const refName = (ref) => ref.split('/').pop();
+
+const camelCase = (name) => name.replace(/_+([a-z0-9])/g, (_, c) => c.toUpperCase());
+
+const isEmptySchema = (schema) => !schema || Object.keys(schema).length === 0;
+
+const toType = (schema) => {
+  if (isEmptySchema(schema)) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.anyOf) return schema.anyOf.map(toType).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = toType(schema.items);
+      return item.includes(' | ') ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object':
+      if (schema.properties) return `{ ${propertyLines(schema).join(' ')} }`;
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `{ [key: string]: ${toType(schema.additionalProperties)} }`;
+      }
+      return '{ [key: string]: unknown }';
+    default:
+      return 'unknown';
+  }
+};
+
+function propertyLines(schema) {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).map(
+    ([name, property]) => `${name}${required.has(name) ? '' : '?'}: ${toType(property)};`
+  );
+}
+
+const renderSchema = (name, schema) => {
+  if (schema.type !== 'object' || !schema.properties) {
+    return `export type ${name} = ${toType(schema)};`;
+  }
+  const lines = propertyLines(schema).map((line) => `  ${line}`);
+  return [`export interface ${name} {`, ...lines, '}'].join('\n');
+};
+
+// FastAPI operation ids are `<function>_<path with non-word chars as _>_<method>`
+const operationName = (operationId, path, method) => {
+  const suffix = `${path.replace(/\W/g, '_')}_${method}`;
+  const base = operationId.endsWith(suffix) ? operationId.slice(0, -suffix.length) : operationId;
+  return camelCase(base);
+};
+
+const renderOperation = (path, method, operation) => {
+  const name = operationName(operation.operationId, path, method);
+  const parameters = operation.parameters ?? [];
+  const pathParams = parameters.filter((p) => p.in === 'path');
+  const queryParams = parameters.filter((p) => p.in === 'query');
+
+  const bodyContent = operation.requestBody?.content ?? {};
+  const bodyMediaType = Object.keys(bodyContent)[0];
+  const bodySchema = bodyMediaType ? bodyContent[bodyMediaType].schema : undefined;
+  const isFormBody = bodyMediaType === 'multipart/form-data' || bodyMediaType === 'application/x-www-form-urlencoded';
+
+  const responseSchema = operation.responses?.['200']?.content?.['application/json']?.schema;
+  const untyped = isEmptySchema(responseSchema);
+  const responseType = untyped ? 'T' : toType(responseSchema);
+
+  const args = pathParams.map((p) => `${camelCase(p.name)}: ${toType(p.schema)}`);
+  if (bodyMediaType) args.push(`body: ${isFormBody ? 'FormData' : toType(bodySchema)}`);
+  if (queryParams.length > 0) {
+    const fields = queryParams.map((p) => `${p.name}${p.required ? '' : '?'}: ${toType(p.schema)}`);
+    args.push(`query${queryParams.some((p) => p.required) ? '' : '?'}: { ${fields.join('; ')} }`);
+  }
+  args.push('config?: AxiosRequestConfig');
+
+  const url = pathParams.length > 0
+    ? '`' + path.replace(/\{(\w+)\}/g, (_, p) => `\${encodeURIComponent(${camelCase(p)})}`) + '`'
+    : `'${path}'`;
+  const config = queryParams.length > 0 ? '{ ...config, params: query }' : 'config';
+  const callArgs = ['get', 'delete'].includes(method)
+    ? `${url}, ${config}`
+    : `${url}, ${bodyMediaType ? 'body' : 'undefined'}, ${config}`;
+
+  const summary = [`${method.toUpperCase()} ${path}`];
+  if (operation.summary) summary.push(operation.summary);
+  if (isFormBody && bodySchema?.$ref) summary.push(`body: ${refName(bodySchema.$ref)}`);
+
+  return [
+    `  /** ${summary.join(' — ')} */`,
+    `  ${name}: async ${untyped ? '<T = unknown>' : ''}(${args.join(', ')}): Promise<${responseType}> =>`,
+    `    (await http.${method}<${responseType}>(${callArgs})).data,`,
+  ].join('\n');
+};
+
+const generate = () => {
+  const schemas = Object.entries(spec.components?.schemas ?? {}).map(([name, schema]) => renderSchema(name, schema));
+  const operations = Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => renderOperation(path, method, operation))
+  );
+
+  return [
+    '// Generated from endpoints.json by scripts/generate-api.js. Do not edit by hand;',
+    '// run `npm run generate:api` after the spec changes.',
+    `// Spec: ${spec.info.title} (${spec.info.version})`,
+    '',
+    "import type { AxiosInstance, AxiosRequestConfig } from 'axios';",
+    '',
+    schemas.join('\n\n'),
+    '',
+    'export const createApiClient = (http: AxiosInstance) => ({',
+    operations.join('\n\n'),
+    '});',
+    '',
+    'export type ApiClient = ReturnType<typeof createApiClient>;',
+    '',
+  ].join('\n');
+};
+
+const output = generate();
+
+if (process.argv.includes('--check')) {
+  const current = existsSync(outputPath) ? readFileSync(outputPath, 'utf8') : '';
+  if (current !== output) {
+    console.error('src/services/openapi.ts is out of date with endpoints.json. Run `npm run generate:api`.');
+    process.exit(1);
+  }
+  console.log('src/services/openapi.ts matches endpoints.json');
+} else {
+  writeFileSync(outputPath, output);
+  console.log(`Wrote ${outputPath}`);
+}
@@ -1,21 +1,41 @@
+import { useEffect } from 'react'
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import ChatPage from './pages/ChatPage'
 import AdminLogin from './pages/AdminLogin'
 import AdminDashboard from './pages/AdminDashboard'
 import NotFound from './pages/NotFound'
+import BackendStatusGate from './components/BackendStatusGate'
+import RequireAuth from './components/RequireAuth'
+import { useAuthStore } from './stores/useAuthStore'
 
 function App() {
+  // Reconcile the persisted admin session once it has been read from storage
+  useEffect(() => {
+    const { initializeAuth } = useAuthStore.getState()
+    if (useAuthStore.persist.hasHydrated()) initializeAuth()
+    return useAuthStore.persist.onFinishHydration(() => initializeAuth())
+  }, [])
+
   return (
     <Router>
       <div className="min-h-screen">
-        <Routes>
-          <Route path="/" element={<ChatPage />} />
-          <Route path="/admin" element={<AdminLogin />} />
-          <Route path="/admin/dashboard" element={<AdminDashboard />} />
-          {/* 404 sayfası - tüm tanımlanmamış route'lar için */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <BackendStatusGate>
+          <Routes>
+            <Route path="/" element={<ChatPage />} />
+            <Route path="/admin" element={<AdminLogin />} />
+            <Route
+              path="/admin/dashboard"
+              element={
+                <RequireAuth>
+                  <AdminDashboard />
+                </RequireAuth>
+              }
+            />
+            {/* 404 sayfası - tüm tanımlanmamış route'lar için */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BackendStatusGate>
         <Toaster 
           position="top-right"
           toastOptions={{
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from 'react'
+import { HardDrive, RefreshCw, Trash2, AlertTriangle } from 'lucide-react'
+import { adminService } from '../../services/api'
+import { useDocumentStore } from '../../stores/useDocumentStore'
+import { formatFileSize } from '../../utils'
+import toast from 'react-hot-toast'
+import type { CacheStats, CacheStatus } from '../../types'
+
+// Document list as of the last cache clear; cached answers older than a
+// document change may quote a regulation that has since been replaced
+const CLEARED_DOCUMENTS_KEY = 'cacheClearedDocuments'
+
+interface CacheSection {
+  name: string
+  stats: CacheStats
+}
+
+const STAT_LABELS: Record<string, string> = {
+  enabled: 'Durum',
+  entries: 'Kayıt',
+  size: 'Boyut',
+  size_bytes: 'Boyut',
+  max_size: 'Maks. boyut',
+  hits: 'İsabet',
+  misses: 'Kaçırma',
+  hit_rate: 'İsabet oranı'
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+// Flattens the status response into one section per object that has counters,
+// whether caches are listed under `caches` or directly at the top level
+const collectSections = (source: Record<string, unknown>, name: string, sections: CacheSection[]) => {
+  const stats: CacheStats = {}
+  Object.entries(source).forEach(([key, value]) => {
+    if (typeof value === 'number' || typeof value === 'boolean') stats[key] = value
+  })
+  if (Object.keys(stats).length > 0) sections.push({ name, stats })
+
+  Object.entries(source).forEach(([key, value]) => {
+    if (isPlainObject(value)) collectSections(value, key, sections)
+  })
+  return sections
+}
+
+const formatSectionName = (name: string) =>
+  name === 'general' ? 'Genel' : name.replace(/[_-]+/g, ' ').replace(/^\w/, (c) => c.toUpperCase())
+
+const formatStatValue = (key: string, value: unknown): string => {
+  if (typeof value === 'boolean') return value ? 'Açık' : 'Kapalı'
+  if (typeof value !== 'number') return String(value)
+  if (/rate|ratio/.test(key)) return `%${(value <= 1 ? value * 100 : value).toFixed(1)}`
+  if (/bytes|memory/.test(key)) return formatFileSize(value)
+  return value.toLocaleString('tr-TR')
+}
+
+const getHitRate = (stats: CacheStats): number | null => {
+  if (typeof stats.hit_rate === 'number') return stats.hit_rate <= 1 ? stats.hit_rate * 100 : stats.hit_rate
+  if (typeof stats.hits === 'number' && typeof stats.misses === 'number' && stats.hits + stats.misses > 0) {
+    return (stats.hits / (stats.hits + stats.misses)) * 100
+  }
+  return null
+}
+
+const countEntries = (sections: CacheSection[]) =>
+  sections.reduce((sum, section) => sum + (typeof section.stats.entries === 'number' ? section.stats.entries : 0), 0)
+
+interface CachePanelProps {
+  readOnly?: boolean
+}
+
+export default function CachePanel({ readOnly = false }: CachePanelProps) {
+  const [cacheStatus, setCacheStatus] = useState<CacheStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isClearing, setIsClearing] = useState(false)
+  const [clearedDocumentsKey, setClearedDocumentsKey] = useState(() => localStorage.getItem(CLEARED_DOCUMENTS_KEY))
+
+  const documents = useDocumentStore((state) => state.documents)
+  const documentsKey = documents.map((doc) => `${doc.id}:${doc.status}`).sort().join('|')
+
+  const loadCacheStatus = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setCacheStatus(await adminService.getCacheStatus())
+    } catch (error) {
+      console.error('Failed to load cache status:', error)
+      setCacheStatus(null)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  // Refresh whenever uploads or deletions change the document list
+  useEffect(() => {
+    loadCacheStatus()
+  }, [documentsKey, loadCacheStatus])
+
+  useEffect(() => {
+    if (clearedDocumentsKey === null) {
+      localStorage.setItem(CLEARED_DOCUMENTS_KEY, documentsKey)
+      setClearedDocumentsKey(documentsKey)
+    }
+  }, [clearedDocumentsKey, documentsKey])
+
+  const handleClearCache = async () => {
+    if (!confirm('Tüm önbellek temizlenecek. Sonraki sorular yeniden hesaplanacağı için bir süre yavaş yanıtlanabilir. Devam edilsin mi?')) return
+
+    setIsClearing(true)
+    try {
+      const response = await adminService.clearCache()
+      localStorage.setItem(CLEARED_DOCUMENTS_KEY, documentsKey)
+      setClearedDocumentsKey(documentsKey)
+      toast.success(response.message || 'Önbellek temizlendi')
+      await loadCacheStatus()
+    } catch (error) {
+      console.error('Failed to clear cache:', error)
+      toast.error('Önbellek temizlenemedi')
+    } finally {
+      setIsClearing(false)
+    }
+  }
+
+  const sections = cacheStatus ? collectSections(cacheStatus, 'general', []) : []
+  const totalEntries = countEntries(sections)
+  const isStale = clearedDocumentsKey !== null && clearedDocumentsKey !== documentsKey && totalEntries > 0
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg">
+            <HardDrive className="h-5 w-5 text-indigo-600 dark:text-indigo-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Önbellek</h3>
+            {typeof cacheStatus?.status === 'string' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{cacheStatus.status}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={loadCacheStatus}
+            disabled={isLoading}
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Önbellek durumunu yenile"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </button>
+          {!readOnly && (
+            <button
+              onClick={handleClearCache}
+              disabled={isClearing || !cacheStatus}
+              className="flex items-center space-x-2 px-4 py-2 text-sm text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>{isClearing ? 'Temizleniyor...' : 'Önbelleği Temizle'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {isStale && (
+          <div className="flex items-start space-x-2 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-300">
+            <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>Son temizlemeden sonra dokümanlar değişti. Önbellekteki yanıtlar güncel olmayan içeriğe dayanıyor olabilir.</span>
+          </div>
+        )}
+
+        {!cacheStatus ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {isLoading ? 'Yükleniyor...' : 'Önbellek durumu alınamadı'}
+          </p>
+        ) : sections.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Sunucu önbellek istatistiği bildirmiyor</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {sections.map((section) => {
+              const hitRate = getHitRate(section.stats)
+              return (
+                <div key={section.name} className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-700">
+                  <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">{formatSectionName(section.name)}</h4>
+                  <dl className="space-y-1 text-sm">
+                    {Object.entries(section.stats).map(([key, value]) => (
+                      <div key={key} className="flex justify-between">
+                        <dt className="text-gray-600 dark:text-gray-400">{STAT_LABELS[key] ?? key.replace(/_/g, ' ')}</dt>
+                        <dd className="font-medium text-gray-900 dark:text-gray-100">{formatStatValue(key, value)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                  {hitRate !== null && (
+                    <div className="mt-3 w-full bg-gray-200 dark:bg-gray-600 rounded-full h-1.5" title={`İsabet oranı %${hitRate.toFixed(1)}`}>
+                      <div
+                        className="bg-indigo-500 dark:bg-indigo-400 h-1.5 rounded-full"
+                        style={{ width: `${Math.min(100, hitRate)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+import { useState, useMemo } from 'react'
+import { Search } from 'lucide-react'
+import type { DocumentChunk, DocumentContent } from '../../types'
+
+interface ChunkInspectorProps {
+  content: DocumentContent
+  // Opens the chunk list pre-filtered, e.g. on the article a chat answer cited
+  initialQuery?: string
+}
+
+interface TextSegment {
+  text: string
+  chunk?: DocumentChunk
+}
+
+// Splits the full text into runs covered by each chunk. Chunks are searched
+// in order from the end of the previous one; overlapping chunks are clipped so
+// every character belongs to at most one chunk. Chunks whose text was
+// normalized by the splitter and can't be found are left out.
+const segmentByChunks = (fullText: string, chunks: DocumentChunk[]): TextSegment[] => {
+  const segments: TextSegment[] = []
+  const ordered = [...chunks].sort((a, b) => a.chunk_index - b.chunk_index)
+  let cursor = 0
+
+  ordered.forEach((chunk) => {
+    const probe = chunk.content.trim()
+    if (!probe) return
+    let start = fullText.indexOf(probe, cursor)
+    if (start === -1) start = fullText.indexOf(probe)
+    if (start === -1) return
+
+    const end = start + probe.length
+    if (end <= cursor) return
+    if (start > cursor) segments.push({ text: fullText.slice(cursor, start) })
+    segments.push({ text: fullText.slice(Math.max(start, cursor), end), chunk })
+    cursor = end
+  })
+
+  if (cursor < fullText.length) segments.push({ text: fullText.slice(cursor) })
+  return segments
+}
+
+const highlightMatches = (text: string, query: string) => {
+  if (!query) return text
+  const escaped = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  // The capture group puts matches at odd indices
+  return text.split(new RegExp(`(${escaped})`, 'gi')).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded-sm">{part}</mark>
+    ) : (
+      part
+    )
+  )
+}
+
+export default function ChunkInspector({ content, initialQuery = '' }: ChunkInspectorProps) {
+  const [view, setView] = useState<'full' | 'chunks'>(initialQuery ? 'chunks' : 'full')
+  const [showBoundaries, setShowBoundaries] = useState(true)
+  const [chunkSearch, setChunkSearch] = useState(initialQuery)
+  const [expandedChunk, setExpandedChunk] = useState<number | null>(null)
+
+  const chunks = content.raw_chunks ?? []
+  const segments = useMemo(
+    () => segmentByChunks(content.full_content, content.raw_chunks ?? []),
+    [content.full_content, content.raw_chunks]
+  )
+  const locatedCount = segments.filter((segment) => segment.chunk).length
+
+  const query = chunkSearch.trim()
+  const filteredChunks = chunks.filter((chunk) => {
+    if (!query) return true
+    const needle = query.toLocaleLowerCase('tr-TR')
+    return (
+      chunk.content.toLocaleLowerCase('tr-TR').includes(needle) ||
+      (chunk.article ?? '').toLocaleLowerCase('tr-TR').includes(needle)
+    )
+  })
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-md transition-colors ${
+      active
+        ? 'bg-white dark:bg-gray-600 text-gray-900 dark:text-gray-100 shadow-sm'
+        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+    }`
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="inline-flex p-1 bg-gray-100 dark:bg-gray-700 rounded-lg">
+          <button onClick={() => setView('full')} className={tabClass(view === 'full')}>
+            Tam Metin
+          </button>
+          <button onClick={() => setView('chunks')} className={tabClass(view === 'chunks')}>
+            Chunk'lar ({chunks.length})
+          </button>
+        </div>
+        {view === 'full' && chunks.length > 0 && (
+          <label className="flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={showBoundaries}
+              onChange={(e) => setShowBoundaries(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-600"
+            />
+            <span>Sınırları göster</span>
+          </label>
+        )}
+      </div>
+
+      {view === 'full' ? (
+        <>
+          <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4 max-h-96 overflow-y-auto">
+            <div className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">
+              {!content.full_content
+                ? 'İçerik yüklenemedi'
+                : showBoundaries && locatedCount > 0
+                  ? segments.map((segment, index) =>
+                      segment.chunk ? (
+                        <span
+                          key={index}
+                          title={`Chunk #${segment.chunk.chunk_index}${segment.chunk.article ? ` • ${segment.chunk.article}` : ''}`}
+                          className={`border-l-2 border-blue-500 pl-1 ${
+                            segment.chunk.chunk_index % 2 === 0 ? 'bg-blue-50 dark:bg-blue-900/30' : 'bg-indigo-50 dark:bg-indigo-900/30'
+                          }`}
+                        >
+                          <sup className="text-[10px] font-mono text-blue-600 dark:text-blue-400 mr-1">#{segment.chunk.chunk_index}</sup>
+                          {segment.text}
+                        </span>
+                      ) : (
+                        <span key={index}>{segment.text}</span>
+                      )
+                    )
+                  : content.full_content}
+            </div>
+          </div>
+          {showBoundaries && chunks.length > 0 && locatedCount < chunks.length && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {chunks.length - locatedCount} chunk tam metinde birebir bulunamadığı için işaretlenmedi
+            </p>
+          )}
+        </>
+      ) : (
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Chunk içinde ara..."
+              value={chunkSearch}
+              onChange={(e) => setChunkSearch(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+          </div>
+          {query && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">{filteredChunks.length} / {chunks.length} chunk eşleşti</p>
+          )}
+
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {chunks.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Bu doküman için chunk bilgisi alınamadı</p>
+            ) : (
+              filteredChunks.map((chunk) => {
+                const isExpanded = expandedChunk === chunk.chunk_index
+                return (
+                  <div
+                    key={chunk.chunk_index}
+                    onClick={() => setExpandedChunk(isExpanded ? null : chunk.chunk_index)}
+                    className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 cursor-pointer hover:border-blue-300 dark:hover:border-blue-700 transition-colors"
+                  >
+                    <div className="flex items-center justify-between mb-1 text-xs">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <span className="font-mono font-medium text-blue-600 dark:text-blue-400">#{chunk.chunk_index}</span>
+                        {chunk.article && (
+                          <span className="px-2 py-0.5 rounded-full bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 truncate">
+                            {highlightMatches(chunk.article, query)}
+                          </span>
+                        )}
+                      </div>
+                      <span className="text-gray-500 dark:text-gray-400 flex-shrink-0">{chunk.content.length} karakter</span>
+                    </div>
+                    <p className={`text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap ${isExpanded ? '' : 'line-clamp-3'}`}>
+                      {highlightMatches(chunk.content, query)}
+                    </p>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
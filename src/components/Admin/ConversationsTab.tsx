@@ -0,0 +1,331 @@
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { motion } from 'framer-motion'
+import { MessageSquare, RefreshCw, Search, FileText, AlertCircle, TrendingUp, ChevronDown, ChevronUp } from 'lucide-react'
+import { chatService } from '../../services/api'
+import { formatDate, getSourceInfo, truncateText } from '../../utils'
+import {
+  countQuestionsPerDay,
+  hasSources,
+  toDayKey,
+  topCitedDocuments,
+  topQuestionTerms
+} from '../../utils/chatAnalytics'
+import toast from 'react-hot-toast'
+import type { ChatHistoryItem } from '../../types'
+
+const LIMIT_OPTIONS = [100, 500, 1000]
+
+export default function ConversationsTab() {
+  const [history, setHistory] = useState<ChatHistoryItem[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [limit, setLimit] = useState(LIMIT_OPTIONS[0])
+  const [searchTerm, setSearchTerm] = useState('')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [onlyUnsourced, setOnlyUnsourced] = useState(false)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const items = await chatService.getChatHistory(limit, { admin: true })
+      setHistory(items)
+    } catch (error) {
+      console.error('Failed to load chat history:', error)
+      toast.error('Konuşma geçmişi yüklenemedi')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [limit])
+
+  useEffect(() => {
+    loadHistory()
+  }, [loadHistory])
+
+  // Search and date range apply to both the list and the aggregates
+  const filteredHistory = useMemo(() => {
+    const query = searchTerm.trim().toLocaleLowerCase('tr-TR')
+    return history
+      .filter((item) => {
+        const day = toDayKey(item.timestamp)
+        if (dateFrom && day < dateFrom) return false
+        if (dateTo && day > dateTo) return false
+        if (!query) return true
+        return (
+          item.message.toLocaleLowerCase('tr-TR').includes(query) ||
+          item.response.toLocaleLowerCase('tr-TR').includes(query)
+        )
+      })
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+  }, [history, searchTerm, dateFrom, dateTo])
+
+  const visibleHistory = onlyUnsourced ? filteredHistory.filter((item) => !hasSources(item)) : filteredHistory
+
+  const questionsPerDay = useMemo(() => countQuestionsPerDay(filteredHistory), [filteredHistory])
+  const topTerms = useMemo(() => topQuestionTerms(filteredHistory), [filteredHistory])
+  const topDocuments = useMemo(() => topCitedDocuments(filteredHistory), [filteredHistory])
+  const unsourcedCount = filteredHistory.filter((item) => !hasSources(item)).length
+  const unsourcedRate = filteredHistory.length > 0 ? Math.round((unsourcedCount / filteredHistory.length) * 100) : 0
+  const maxPerDay = Math.max(1, ...questionsPerDay.map((d) => d.count))
+  const dailyAverage = questionsPerDay.length > 0 ? (filteredHistory.length / questionsPerDay.length).toFixed(1) : '0'
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100">Öğrenci Soruları</h2>
+        <div className="flex items-center space-x-3">
+          <select
+            value={limit}
+            onChange={(e) => setLimit(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            title="Yüklenecek kayıt sayısı"
+          >
+            {LIMIT_OPTIONS.map((option) => (
+              <option key={option} value={option}>Son {option} kayıt</option>
+            ))}
+          </select>
+          <button
+            onClick={loadHistory}
+            disabled={isLoading}
+            className="flex items-center space-x-2 px-4 py-2 text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            title="Geçmişi yenile"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            <span>Yenile</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white dark:bg-gray-800 p-4 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 flex flex-col lg:flex-row lg:items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="h-4 w-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Soru veya yanıtlarda ara..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+        </div>
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <input
+            type="date"
+            value={dateFrom}
+            max={dateTo || undefined}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+          <span>—</span>
+          <input
+            type="date"
+            value={dateTo}
+            min={dateFrom || undefined}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={onlyUnsourced}
+            onChange={(e) => setOnlyUnsourced(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Sadece kaynaksız yanıtlar</span>
+        </label>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Soru Sayısı</p>
+              <p className="text-3xl font-bold text-blue-900 dark:text-blue-100">{filteredHistory.length}</p>
+            </div>
+            <div className="p-3 bg-blue-100 dark:bg-blue-900/30 rounded-lg">
+              <MessageSquare className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Günlük Ortalama</p>
+              <p className="text-3xl font-bold text-blue-900 dark:text-blue-100">{dailyAverage}</p>
+            </div>
+            <div className="p-3 bg-green-100 dark:bg-green-900/30 rounded-lg">
+              <TrendingUp className="h-6 w-6 text-green-600 dark:text-green-400" />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Kaynaksız Yanıt</p>
+              <p className="text-3xl font-bold text-blue-900 dark:text-blue-100">
+                {unsourcedCount} <span className="text-base font-medium text-gray-500 dark:text-gray-400">(%{unsourcedRate})</span>
+              </p>
+            </div>
+            <div className="p-3 bg-red-100 dark:bg-red-900/30 rounded-lg">
+              <AlertCircle className="h-6 w-6 text-red-600 dark:text-red-400" />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Analytics */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-3 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Günlük Soru Sayısı</h3>
+          {questionsPerDay.length > 0 ? (
+            <div className="flex items-end gap-1 h-40 overflow-x-auto">
+              {questionsPerDay.map((day) => (
+                <div
+                  key={day.day}
+                  className="flex-1 min-w-[8px] flex flex-col justify-end h-full group"
+                  title={`${day.day}: ${day.count} soru`}
+                >
+                  <div
+                    className="bg-blue-500 dark:bg-blue-400 rounded-t group-hover:bg-blue-600 dark:group-hover:bg-blue-300 transition-colors"
+                    style={{ height: `${(day.count / maxPerDay) * 100}%`, minHeight: day.count > 0 ? 2 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Seçilen aralıkta soru yok</p>
+          )}
+          {questionsPerDay.length > 0 && (
+            <div className="flex justify-between mt-2 text-xs text-gray-500 dark:text-gray-400">
+              <span>{questionsPerDay[0].day}</span>
+              <span>{questionsPerDay[questionsPerDay.length - 1].day}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">En Çok Sorulan Konular</h3>
+          <ul className="space-y-2">
+            {topTerms.map((term) => (
+              <li key={term.term} className="flex items-center justify-between text-sm">
+                <button
+                  onClick={() => setSearchTerm(term.term)}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                  title="Bu kelimeyle filtrele"
+                >
+                  {term.term}
+                </button>
+                <span className="text-gray-500 dark:text-gray-400">{term.count}</span>
+              </li>
+            ))}
+            {topTerms.length === 0 && (
+              <li className="text-sm text-gray-500 dark:text-gray-400">Veri yok</li>
+            )}
+          </ul>
+        </div>
+
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">En Çok Atıf Alan Dokümanlar</h3>
+          <ul className="space-y-3">
+            {topDocuments.map((doc) => (
+              <li key={doc.term} className="text-sm">
+                <div className="flex justify-between mb-1">
+                  <span className="truncate text-gray-900 dark:text-gray-100" title={doc.term}>{doc.term}</span>
+                  <span className="text-gray-500 dark:text-gray-400 ml-2">{doc.count}</span>
+                </div>
+                <div className="w-full bg-gray-100 dark:bg-gray-700 rounded-full h-1.5">
+                  <div
+                    className="bg-green-500 dark:bg-green-400 h-1.5 rounded-full"
+                    style={{ width: `${(doc.count / topDocuments[0].count) * 100}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+            {topDocuments.length === 0 && (
+              <li className="text-sm text-gray-500 dark:text-gray-400">Henüz kaynak gösterilen yanıt yok</li>
+            )}
+          </ul>
+        </div>
+      </div>
+
+      {/* Conversation List */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+            Konuşmalar ({visibleHistory.length}/{history.length})
+          </h3>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8">
+            <div className="w-6 h-6 border-2 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-2" />
+            <p className="text-sm text-gray-600 dark:text-gray-400">Yükleniyor...</p>
+          </div>
+        ) : visibleHistory.length === 0 ? (
+          <div className="text-center py-8">
+            <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500 dark:text-gray-400">Filtrelere uygun konuşma bulunamadı</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-[600px] overflow-y-auto">
+            {visibleHistory.map((item) => {
+              const isExpanded = expandedId === item.id
+              return (
+                <li key={item.id} className="p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <div className="flex items-start justify-between gap-4">
+                    <p className="font-medium text-gray-900 dark:text-gray-100">{item.message}</p>
+                    <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatDate(item.timestamp)}</span>
+                  </div>
+                  <p className="mt-2 text-sm text-gray-600 dark:text-gray-400 whitespace-pre-wrap">
+                    {isExpanded ? item.response : truncateText(item.response, 240)}
+                  </p>
+                  <div className="mt-2 flex flex-wrap items-center gap-2">
+                    {hasSources(item) ? (
+                      item.sources!.map((source, index) => {
+                        const info = getSourceInfo(source)
+                        return (
+                          <span
+                            key={index}
+                            className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800"
+                            title={info.snippet ?? undefined}
+                          >
+                            <FileText className="h-3 w-3" />
+                            <span>{info.fileName}{info.article ? ` · ${info.article}` : ''}</span>
+                          </span>
+                        )
+                      })
+                    ) : (
+                      <span className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800">
+                        <AlertCircle className="h-3 w-3" />
+                        <span>Kaynak yok</span>
+                      </span>
+                    )}
+                    {item.response.length > 240 && (
+                      <button
+                        onClick={() => setExpandedId(isExpanded ? null : item.id)}
+                        className="ml-auto inline-flex items-center text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {isExpanded ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+                        {isExpanded ? 'Daralt' : 'Tamamını göster'}
+                      </button>
+                    )}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  )
+}
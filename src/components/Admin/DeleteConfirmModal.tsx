@@ -0,0 +1,162 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { AlertTriangle, CheckCircle, AlertCircle, X } from 'lucide-react'
+import type { BulkDeleteResult, DocumentInfo } from '../../types'
+
+interface DeleteConfirmModalProps {
+  documents: DocumentInfo[]
+  title: string
+  onConfirm: (onProgress: (result: BulkDeleteResult) => void) => Promise<BulkDeleteResult[]>
+  onClose: () => void
+}
+
+const CONFIRM_WORD = 'SİL'
+
+const PREVIEW_LIMIT = 5
+
+// Deletion needs the count or "SİL" typed out instead of a single click
+export default function DeleteConfirmModal({ documents, title, onConfirm, onClose }: DeleteConfirmModalProps) {
+  const [confirmation, setConfirmation] = useState('')
+  const [phase, setPhase] = useState<'confirm' | 'running' | 'done'>('confirm')
+  const [results, setResults] = useState<BulkDeleteResult[]>([])
+
+  const count = documents.length
+  const typed = confirmation.trim().toLocaleUpperCase('tr-TR')
+  const isConfirmed = typed === CONFIRM_WORD || typed === String(count)
+  const failed = results.filter((r) => !r.success)
+
+  const handleConfirm = async () => {
+    if (!isConfirmed || phase !== 'confirm') return
+    setPhase('running')
+    const finalResults = await onConfirm((result) => setResults((prev) => [...prev, result]))
+    setResults(finalResults)
+    setPhase('done')
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center px-4"
+    >
+      <motion.div
+        initial={{ scale: 0.95, y: 10 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 10 }}
+        className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6"
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <div className="p-3 rounded-lg bg-red-100 dark:bg-red-900/30">
+              <AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400" />
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{title}</h2>
+          </div>
+          {phase !== 'running' && (
+            <button
+              onClick={onClose}
+              className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <X className="h-5 w-5" />
+            </button>
+          )}
+        </div>
+
+        {phase === 'confirm' && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {count} doküman ve tüm chunk'ları kalıcı olarak silinecek. Bu işlem geri alınamaz.
+            </p>
+            <ul className="text-sm text-gray-700 dark:text-gray-300 space-y-1">
+              {documents.slice(0, PREVIEW_LIMIT).map((doc) => (
+                <li key={doc.id} className="truncate">• {doc.file_name}</li>
+              ))}
+              {count > PREVIEW_LIMIT && (
+                <li className="text-gray-500 dark:text-gray-400">ve {count - PREVIEW_LIMIT} doküman daha</li>
+              )}
+            </ul>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Onaylamak için <span className="font-mono">{count}</span> veya <span className="font-mono">{CONFIRM_WORD}</span> yazın
+              </label>
+              <input
+                type="text"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleConfirm()
+                }}
+                autoFocus
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-red-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+            </div>
+            <div className="flex justify-end space-x-2 pt-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Vazgeç
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={!isConfirmed}
+                className="px-4 py-2 text-sm font-medium bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Sil
+              </button>
+            </div>
+          </div>
+        )}
+
+        {phase === 'running' && (
+          <div className="space-y-3">
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+              <span>Siliniyor...</span>
+              <span>{results.length} / {count}</span>
+            </div>
+            <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-2">
+              <div
+                className="bg-red-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${count > 0 ? (results.length / count) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {phase === 'done' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300 flex items-center space-x-2">
+                <CheckCircle className="h-4 w-4" />
+                <span>{results.length - failed.length} silindi</span>
+              </div>
+              <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 flex items-center space-x-2">
+                <AlertCircle className="h-4 w-4" />
+                <span>{failed.length} başarısız</span>
+              </div>
+            </div>
+            {failed.length > 0 && (
+              <ul className="max-h-48 overflow-y-auto text-sm space-y-2">
+                {failed.map((result) => (
+                  <li key={result.id}>
+                    <p className="font-medium text-gray-900 dark:text-gray-100 truncate">{result.file_name}</p>
+                    {result.error && <p className="text-xs text-red-600 dark:text-red-400">{result.error}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex justify-end">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+              >
+                Kapat
+              </button>
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </motion.div>
+  )
+}
@@ -0,0 +1,87 @@
+import { useMemo, useState } from 'react'
+import { Save, Tag } from 'lucide-react'
+import toast from 'react-hot-toast'
+import MetadataFields from './MetadataFields'
+import { useDocumentMetadataStore } from '../../stores/useDocumentMetadataStore'
+import { CATEGORY_LABELS, LANGUAGE_LABELS, formatValidity, getFacultyOptions, isSameMetadata, mergeMetadata, parseDocumentMetadata } from '../../utils/documentMetadata'
+import type { DocumentDetails, DocumentMetadata } from '../../types'
+
+interface DocumentMetadataEditorProps {
+  details: DocumentDetails
+  readOnly?: boolean
+}
+
+export default function DocumentMetadataEditor({ details, readOnly = false }: DocumentMetadataEditorProps) {
+  const { byFileName, setMetadata } = useDocumentMetadataStore()
+  const saved = useMemo(
+    () => mergeMetadata(parseDocumentMetadata(details.metadata), byFileName[details.file_name]),
+    [details, byFileName]
+  )
+  const [draft, setDraft] = useState<DocumentMetadata>(saved)
+
+  const facultySuggestions = useMemo(() => getFacultyOptions(Object.values(byFileName)), [byFileName])
+
+  const isDirty = !isSameMetadata(draft, saved)
+  const isDateRangeInvalid = !!draft.effective_date && !!draft.expiry_date && draft.expiry_date < draft.effective_date
+
+  const handleSave = () => {
+    setMetadata(details.file_name, mergeMetadata(draft))
+    toast.success('Notlar kaydedildi')
+  }
+
+  if (readOnly) {
+    const validity = formatValidity(saved)
+    const rows: [string, string | undefined][] = [
+      ['Fakülte / Birim', saved.faculty],
+      ['Kategori', saved.category && CATEGORY_LABELS[saved.category]],
+      ['Dil', saved.language && LANGUAGE_LABELS[saved.language]],
+      ['Geçerlilik', validity ?? undefined]
+    ]
+    const filled = rows.filter(([, value]) => value)
+
+    if (filled.length === 0 && !saved.tags) {
+      return <p className="text-sm text-gray-500 dark:text-gray-400">Bu doküman için not girilmemiş</p>
+    }
+
+    return (
+      <div className="space-y-2 text-sm">
+        {filled.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span className="text-gray-500 dark:text-gray-400">{label}:</span>
+            <span className="text-gray-900 dark:text-gray-100">{value}</span>
+          </div>
+        ))}
+        {saved.tags && (
+          <div className="flex flex-wrap gap-1">
+            {saved.tags.map((tag) => (
+              <span key={tag} className="inline-flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                <Tag className="h-3 w-3" />
+                <span>{tag}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Notlar yalnızca bu tarayıcıda saklanır; sunucuya gönderilmez, diğer yöneticiler ve öğrenciler görmez.
+        Doküman filtrelerinde ve içerik güncelliği kontrolünde kullanılır.
+      </p>
+      <MetadataFields value={draft} onChange={setDraft} facultySuggestions={facultySuggestions} />
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isDateRangeInvalid}
+          className="flex items-center space-x-2 px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm"
+        >
+          <Save className="h-4 w-4" />
+          <span>Kaydet</span>
+        </button>
+      </div>
+    </div>
+  )
+}
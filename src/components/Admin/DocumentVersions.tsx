@@ -0,0 +1,198 @@
+import { useState, useMemo } from 'react'
+import { History, GitCompare } from 'lucide-react'
+import { useDocumentVersionStore } from '../../stores/useDocumentVersionStore'
+import { diffLines } from '../../utils/textDiff'
+import type { DiffLine } from '../../utils/textDiff'
+import { formatFileSize, formatDate } from '../../utils'
+import type { DocumentContent, DocumentDetails } from '../../types'
+
+interface DocumentVersionsProps {
+  details: DocumentDetails
+  content: DocumentContent | null
+}
+
+interface VersionEntry {
+  key: string
+  label: string
+  file_name: string
+  file_size: number
+  created_at: string
+  chunks_count?: number | null
+  full_content?: string
+  isCurrent: boolean
+}
+
+// Unchanged lines kept around each change; longer unchanged runs are folded
+const CONTEXT_LINES = 2
+
+type DiffRow = DiffLine | { type: 'fold'; count: number }
+
+const foldUnchanged = (lines: DiffLine[]): DiffRow[] => {
+  const rows: DiffRow[] = []
+  let run: DiffLine[] = []
+
+  const flush = (isEdge: 'start' | 'middle' | 'end') => {
+    const keepBefore = isEdge === 'start' ? 0 : CONTEXT_LINES
+    const keepAfter = isEdge === 'end' ? 0 : CONTEXT_LINES
+    if (run.length > keepBefore + keepAfter + 1) {
+      rows.push(...run.slice(0, keepBefore))
+      rows.push({ type: 'fold', count: run.length - keepBefore - keepAfter })
+      rows.push(...run.slice(run.length - keepAfter))
+    } else {
+      rows.push(...run)
+    }
+    run = []
+  }
+
+  let seenChange = false
+  lines.forEach((line) => {
+    if (line.type === 'same') {
+      run.push(line)
+      return
+    }
+    flush(seenChange ? 'middle' : 'start')
+    seenChange = true
+    rows.push(line)
+  })
+  flush(seenChange ? 'end' : 'start')
+  return rows
+}
+
+export default function DocumentVersions({ details, content }: DocumentVersionsProps) {
+  const history = useDocumentVersionStore((state) => state.histories[details.document_id])
+
+  const versions: VersionEntry[] = useMemo(() => {
+    const previous = (history ?? []).map((version, index) => ({
+      key: version.document_id,
+      label: `Sürüm ${index + 1}`,
+      file_name: version.file_name,
+      file_size: version.file_size,
+      created_at: version.created_at,
+      chunks_count: version.chunks_count,
+      full_content: version.full_content,
+      isCurrent: false
+    }))
+    const current: VersionEntry = {
+      key: details.document_id,
+      label: `Sürüm ${previous.length + 1}`,
+      file_name: details.file_name,
+      file_size: details.file_size,
+      created_at: details.created_at,
+      chunks_count: details.chunks_count,
+      full_content: content?.full_content,
+      isCurrent: true
+    }
+    return [...previous, current]
+  }, [history, details, content])
+
+  const comparable = versions.filter((version) => version.full_content !== undefined)
+  const [fromKey, setFromKey] = useState(() => comparable[comparable.length - 2]?.key ?? '')
+  const [toKey, setToKey] = useState(() => comparable[comparable.length - 1]?.key ?? '')
+
+  const from = comparable.find((version) => version.key === fromKey)
+  const to = comparable.find((version) => version.key === toKey)
+  const diff = useMemo(
+    () => (from && to && from.key !== to.key ? diffLines(from.full_content ?? '', to.full_content ?? '') : null),
+    [from, to]
+  )
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Bu dokümanın önceki sürümü yok. "Yeni sürüm yükle" ile değiştirilen dokümanların geçmişi burada listelenir.
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="space-y-2">
+        {[...versions].reverse().map((version) => (
+          <li key={version.key} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 text-sm">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2 min-w-0">
+                <History className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <span className="font-medium text-gray-900 dark:text-gray-100">{version.label}</span>
+                {version.isCurrent && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">Güncel</span>
+                )}
+              </div>
+              <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{formatDate(version.created_at)}</span>
+            </div>
+            <p className="mt-1 text-gray-700 dark:text-gray-300 truncate" title={version.file_name}>{version.file_name}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatFileSize(version.file_size)} • {version.chunks_count ?? 0} chunk
+            </p>
+            {!version.isCurrent && version.full_content === undefined && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Tarayıcı depolaması dolduğu için bu sürümün metni saklanamadı; karşılaştırmada yer almaz.
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {comparable.length >= 2 && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2 text-sm">
+            <GitCompare className="h-4 w-4 text-gray-400 flex-shrink-0" />
+            <select
+              value={fromKey}
+              onChange={(e) => setFromKey(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              {comparable.map((version) => (
+                <option key={version.key} value={version.key}>{version.label}</option>
+              ))}
+            </select>
+            <span className="text-gray-500 dark:text-gray-400">→</span>
+            <select
+              value={toKey}
+              onChange={(e) => setToKey(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              {comparable.map((version) => (
+                <option key={version.key} value={version.key}>{version.label}</option>
+              ))}
+            </select>
+          </div>
+
+          {diff && (
+            <>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                <span className="text-green-600 dark:text-green-400">+{diff.added}</span>{' '}
+                <span className="text-red-600 dark:text-red-400">−{diff.removed}</span> satır
+                {diff.truncated && ' • değişiklik çok büyük, satır eşleştirmesi yapılmadı'}
+              </p>
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 max-h-96 overflow-y-auto font-mono text-xs">
+                {diff.added === 0 && diff.removed === 0 ? (
+                  <p className="p-3 text-gray-500 dark:text-gray-400 font-sans">Metinler aynı</p>
+                ) : (
+                  foldUnchanged(diff.lines).map((row, index) =>
+                    row.type === 'fold' ? (
+                      <div key={index} className="px-3 py-1 text-gray-400 bg-gray-100 dark:bg-gray-800">… {row.count} satır aynı</div>
+                    ) : (
+                      <div
+                        key={index}
+                        className={`px-3 whitespace-pre-wrap break-words ${
+                          row.type === 'added'
+                            ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+                            : row.type === 'removed'
+                              ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                              : 'text-gray-700 dark:text-gray-300'
+                        }`}
+                      >
+                        {row.type === 'added' ? '+ ' : row.type === 'removed' ? '− ' : '  '}
+                        {row.text}
+                      </div>
+                    )
+                  )
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
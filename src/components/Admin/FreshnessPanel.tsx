@@ -0,0 +1,196 @@
+import { useState } from 'react'
+import { CalendarClock, Download, RefreshCw } from 'lucide-react'
+import { useFreshnessStore } from '../../stores/useFreshnessStore'
+import { downloadTextFile, formatDate } from '../../utils'
+import { FRESHNESS_ISSUE_LABELS, buildFreshnessReport } from '../../utils/documentFreshness'
+import type { FreshnessEntry, FreshnessIssue } from '../../utils/documentFreshness'
+import type { DocumentInfo } from '../../types'
+
+interface FreshnessPanelProps {
+  entries: FreshnessEntry[]
+  onOpenDocument: (document: DocumentInfo) => void
+}
+
+const ISSUE_STYLES: Record<FreshnessIssue, string> = {
+  expired: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+  expiring: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300',
+  old: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300',
+  uncited: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+}
+
+const ISSUES: FreshnessIssue[] = ['expired', 'expiring', 'old', 'uncited']
+
+// Rows shown before "Tümünü göster"
+const PREVIEW_ROWS = 10
+
+export default function FreshnessPanel({ entries, onOpenDocument }: FreshnessPanelProps) {
+  const [issueFilter, setIssueFilter] = useState<FreshnessIssue | 'all'>('all')
+  const [showAll, setShowAll] = useState(false)
+  const {
+    maxAgeDays,
+    expiringWithinDays,
+    citationCounts,
+    historySize,
+    isLoadingCitations,
+    setThresholds,
+    loadCitations
+  } = useFreshnessStore()
+
+  const visibleEntries = issueFilter === 'all' ? entries : entries.filter((entry) => entry.issues.includes(issueFilter))
+  const countOf = (issue: FreshnessIssue) => entries.filter((entry) => entry.issues.includes(issue)).length
+
+  const handleExport = () => {
+    downloadTextFile(`dokuman-guncellik-raporu-${new Date().toISOString().slice(0, 10)}.csv`, buildFreshnessReport(visibleEntries), 'text/csv')
+  }
+
+  const describeExpiry = (entry: FreshnessEntry) => {
+    if (entry.daysToExpiry === undefined) return '—'
+    if (entry.daysToExpiry < 0) return `${-entry.daysToExpiry} gün önce doldu`
+    if (entry.daysToExpiry === 0) return 'Bugün doluyor'
+    return `${entry.daysToExpiry} gün kaldı`
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-orange-100 dark:bg-orange-900/30 rounded-lg">
+            <CalendarClock className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">İçerik Güncelliği</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {citationCounts
+                ? `Kaynak kullanımı son ${historySize} sohbet kaydına göre`
+                : isLoadingCitations
+                  ? 'Sohbet geçmişi yükleniyor...'
+                  : 'Sohbet geçmişi yüklenemedi; kaynak kullanımı hesaplanmadı'}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Geçerlilik tarihleri bu tarayıcıdaki yönetici notlarından okunur.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+            <span className="whitespace-nowrap">Eski sayılma (gün)</span>
+            <input
+              type="number"
+              min={1}
+              value={maxAgeDays}
+              onChange={(e) => setThresholds({ maxAgeDays: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+          </label>
+          <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+            <span className="whitespace-nowrap">Uyarı süresi (gün)</span>
+            <input
+              type="number"
+              min={0}
+              value={expiringWithinDays}
+              onChange={(e) => setThresholds({ expiringWithinDays: Math.max(0, Number(e.target.value) || 0) })}
+              className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            />
+          </label>
+          <button
+            onClick={loadCitations}
+            disabled={isLoadingCitations}
+            className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+            title="Kaynak kullanımını yenile"
+          >
+            <RefreshCw className={`h-4 w-4 ${isLoadingCitations ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={visibleEntries.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4" />
+            <span>Raporu indir</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="px-6 pt-4 flex flex-wrap gap-2 text-sm">
+        <button
+          onClick={() => setIssueFilter('all')}
+          className={`px-3 py-1 rounded-full border transition-colors ${
+            issueFilter === 'all'
+              ? 'border-blue-500 text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20'
+              : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+          }`}
+        >
+          Tümü ({entries.length})
+        </button>
+        {ISSUES.map((issue) => (
+          <button
+            key={issue}
+            onClick={() => setIssueFilter(issue)}
+            className={`px-3 py-1 rounded-full border transition-colors ${
+              issueFilter === issue
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20'
+                : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {FRESHNESS_ISSUE_LABELS[issue]} ({countOf(issue)})
+          </button>
+        ))}
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Bu kritere uyan doküman yok</p>
+      ) : (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Dosya</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Yüklenme</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Geçerlilik</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Kaynak</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Sorunlar</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {(showAll ? visibleEntries : visibleEntries.slice(0, PREVIEW_ROWS)).map((entry) => (
+                <tr key={entry.document.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                  <td className="px-6 py-4 text-sm max-w-xs">
+                    <button
+                      onClick={() => onOpenDocument(entry.document)}
+                      className="text-left text-blue-600 dark:text-blue-400 hover:underline truncate max-w-full"
+                      title={entry.document.file_name}
+                    >
+                      {entry.document.file_name}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                    {formatDate(entry.document.created_at)} ({entry.ageDays} gün)
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">{describeExpiry(entry)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">{entry.citations ?? '—'}</td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-wrap gap-1">
+                      {entry.issues.map((issue) => (
+                        <span key={issue} className={`px-2 py-0.5 rounded-full text-xs font-medium ${ISSUE_STYLES[issue]}`}>
+                          {FRESHNESS_ISSUE_LABELS[issue]}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleEntries.length > PREVIEW_ROWS && (
+            <button
+              onClick={() => setShowAll(!showAll)}
+              className="w-full py-3 text-sm text-blue-600 dark:text-blue-400 hover:bg-gray-50 dark:hover:bg-gray-700/50 border-t border-gray-200 dark:border-gray-700"
+            >
+              {showAll ? 'Daha az göster' : `Tümünü göster (${visibleEntries.length})`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
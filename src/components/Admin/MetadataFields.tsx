@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { CATEGORY_LABELS, LANGUAGE_LABELS, parseTags } from '../../utils/documentMetadata'
+import type { DocumentCategory, DocumentMetadata } from '../../types'
+
+interface MetadataFieldsProps {
+  value: DocumentMetadata
+  onChange: (value: DocumentMetadata) => void
+  facultySuggestions?: string[]
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+const labelClass = 'block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1'
+
+// Form fields for the document metadata schema, shared by the upload queue
+// and the document details editor
+export default function MetadataFields({ value, onChange, facultySuggestions = [] }: MetadataFieldsProps) {
+  // Kept as typed so commas and trailing spaces survive until the tags are parsed
+  const [tagsText, setTagsText] = useState(() => (value.tags ?? []).join(', '))
+
+  const update = (patch: Partial<DocumentMetadata>) => onChange({ ...value, ...patch })
+  const isDateRangeInvalid = !!value.effective_date && !!value.expiry_date && value.expiry_date < value.effective_date
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div>
+        <label className={labelClass}>Fakülte / Birim</label>
+        <input
+          type="text"
+          list="metadata-faculties"
+          value={value.faculty ?? ''}
+          onChange={(e) => update({ faculty: e.target.value || undefined })}
+          placeholder="ör. Mühendislik Fakültesi"
+          className={inputClass}
+        />
+        <datalist id="metadata-faculties">
+          {facultySuggestions.map((faculty) => (
+            <option key={faculty} value={faculty} />
+          ))}
+        </datalist>
+      </div>
+      <div>
+        <label className={labelClass}>Kategori</label>
+        <select
+          value={value.category ?? ''}
+          onChange={(e) => update({ category: (e.target.value || undefined) as DocumentCategory | undefined })}
+          className={inputClass}
+        >
+          <option value="">Seçilmedi</option>
+          {Object.entries(CATEGORY_LABELS).map(([category, label]) => (
+            <option key={category} value={category}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Dil</label>
+        <select
+          value={value.language ?? ''}
+          onChange={(e) => update({ language: (e.target.value || undefined) as DocumentMetadata['language'] })}
+          className={inputClass}
+        >
+          <option value="">Seçilmedi</option>
+          {Object.entries(LANGUAGE_LABELS).map(([language, label]) => (
+            <option key={language} value={language}>{label}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Etiketler (virgülle ayırın)</label>
+        <input
+          type="text"
+          value={tagsText}
+          onChange={(e) => {
+            setTagsText(e.target.value)
+            const tags = parseTags(e.target.value)
+            update({ tags: tags.length > 0 ? tags : undefined })
+          }}
+          placeholder="ör. lisans, staj"
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Yürürlük tarihi</label>
+        <input
+          type="date"
+          value={value.effective_date ?? ''}
+          onChange={(e) => update({ effective_date: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Geçerlilik bitişi</label>
+        <input
+          type="date"
+          value={value.expiry_date ?? ''}
+          onChange={(e) => update({ expiry_date: e.target.value || undefined })}
+          className={inputClass}
+        />
+      </div>
+      {isDateRangeInvalid && (
+        <p className="sm:col-span-2 text-xs text-red-600 dark:text-red-400">Geçerlilik bitişi yürürlük tarihinden önce olamaz</p>
+      )}
+    </div>
+  )
+}
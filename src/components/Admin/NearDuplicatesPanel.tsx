@@ -0,0 +1,137 @@
+import { useState } from 'react'
+import { Copy, GitMerge, Trash2, X, ChevronDown, ChevronUp, ScanSearch } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { useDocumentSimilarityStore } from '../../stores/useDocumentSimilarityStore'
+import { useDocumentVersionStore } from '../../stores/useDocumentVersionStore'
+import { formatDate } from '../../utils'
+import type { NearDuplicatePair } from '../../utils/documentSimilarity'
+import type { DocumentInfo } from '../../types'
+
+interface NearDuplicatesPanelProps {
+  pairs: NearDuplicatePair[]
+  // Processed documents without a signature; they are left out of `pairs`
+  unscannedCount: number
+  readOnly?: boolean
+  onDelete: (document: DocumentInfo) => void
+  onOpen: (document: DocumentInfo) => void
+}
+
+// Pairs shown before expanding the list
+const PREVIEW_PAIRS = 3
+
+export default function NearDuplicatesPanel({ pairs, unscannedCount, readOnly = false, onDelete, onOpen }: NearDuplicatesPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { isScanning, scanDocuments, dismissPair } = useDocumentSimilarityStore()
+  const { replacingIds, mergeDocuments } = useDocumentVersionStore()
+
+  if (pairs.length === 0 && unscannedCount === 0 && !isScanning) return null
+
+  const scanStatus = isScanning ? (
+    <span className="text-xs text-yellow-700 dark:text-yellow-400">Dokümanlar taranıyor...</span>
+  ) : unscannedCount > 0 ? (
+    <button
+      onClick={() => scanDocuments()}
+      className="flex items-center space-x-1 px-2 py-1 text-sm text-yellow-800 dark:text-yellow-300 hover:bg-yellow-100 dark:hover:bg-yellow-900/30 rounded-lg transition-colors"
+      title="Her dokümanın metni indirilip karşılaştırılır"
+    >
+      <ScanSearch className="h-4 w-4" />
+      <span>Benzerlik taraması ({unscannedCount} doküman)</span>
+    </button>
+  ) : null
+
+  const handleMerge = async (pair: NearDuplicatePair) => {
+    if (!confirm(`"${pair.older.file_name}" silinecek ve içeriği "${pair.newer.file_name}" dokümanının önceki sürümü olarak saklanacak. Devam edilsin mi?`)) return
+
+    const toastId = toast.loading('Dokümanlar birleştiriliyor...')
+    try {
+      await mergeDocuments(pair.newer, pair.older)
+      toast.success('Dokümanlar birleştirildi', { id: toastId })
+    } catch (error) {
+      console.error('Failed to merge documents:', error)
+      toast.error('Dokümanlar birleştirilemedi', { id: toastId })
+    }
+  }
+
+  const visiblePairs = isExpanded ? pairs : pairs.slice(0, PREVIEW_PAIRS)
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-xl border border-yellow-200 dark:border-yellow-800 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2 text-yellow-800 dark:text-yellow-300">
+          <Copy className="h-5 w-5" />
+          <h3 className="font-semibold">Benzer içerikli dokümanlar ({pairs.length})</h3>
+        </div>
+        {scanStatus}
+      </div>
+
+      {pairs.length === 0 && unscannedCount > 0 && (
+        <p className="text-sm text-yellow-800 dark:text-yellow-300">
+          {unscannedCount} doküman henüz taranmadı. Tarama, birbirinin sürümü gibi görünen dokümanları bulur.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {visiblePairs.map((pair) => {
+          const isBusy = replacingIds.includes(pair.older.id) || replacingIds.includes(pair.newer.id)
+          return (
+            <li key={pair.key} className="p-3 bg-white dark:bg-gray-800 rounded-lg border border-yellow-200 dark:border-yellow-800 text-sm">
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-gray-900 dark:text-gray-100">
+                    <button onClick={() => onOpen(pair.older)} className="font-medium hover:underline break-all text-left">{pair.older.file_name}</button>
+                    <span className="text-gray-500 dark:text-gray-400"> ({formatDate(pair.older.created_at)}) ile </span>
+                    <button onClick={() => onOpen(pair.newer)} className="font-medium hover:underline break-all text-left">{pair.newer.file_name}</button>
+                    <span className="text-gray-500 dark:text-gray-400"> ({formatDate(pair.newer.created_at)})</span>
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    %{Math.round(pair.similarity * 100)} benzer. Yeni olan, eskisinin güncel sürümü gibi görünüyor; eskisini birleştirmeniz veya silmeniz önerilir.
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {!readOnly && (
+                    <>
+                      <button
+                        onClick={() => handleMerge(pair)}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 px-2 py-1 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+                        title="Eskisini sil, içeriğini sürüm geçmişinde sakla"
+                      >
+                        <GitMerge className="h-4 w-4" />
+                        <span>Birleştir</span>
+                      </button>
+                      <button
+                        onClick={() => onDelete(pair.older)}
+                        disabled={isBusy}
+                        className="flex items-center space-x-1 px-2 py-1 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span>Eskisini sil</span>
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => dismissPair(pair.key)}
+                    className="p-1 text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Kopya değil, gizle"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      {pairs.length > PREVIEW_PAIRS && (
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className="mt-2 flex items-center space-x-1 text-sm text-yellow-800 dark:text-yellow-300 hover:underline"
+        >
+          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          <span>{isExpanded ? 'Daha az göster' : `Tümünü göster (${pairs.length})`}</span>
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Send, Save, Play, Trash2, CheckCircle, AlertCircle, AlertTriangle, Clock, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react'
+import { chatService } from '../../services/api'
+import { useDocumentStore } from '../../stores/useDocumentStore'
+import { useRetrievalTestStore, diffSources, getSourceKey } from '../../stores/useRetrievalTestStore'
+import { getSourceInfo, formatDate } from '../../utils'
+import toast from 'react-hot-toast'
+import type { ChatResponse, ChatSource, RetrievalTestCase } from '../../types'
+
+interface RetrievalTestTabProps {
+  // Opens the source's document in the chunk inspector
+  onOpenSource: (source: ChatSource) => void
+}
+
+function SourceList({ sources, onOpenSource }: { sources: ChatSource[]; onOpenSource: (source: ChatSource) => void }) {
+  if (sources.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Kaynak döndürülmedi</p>
+  }
+  return (
+    <ul className="space-y-2">
+      {sources.map((source, index) => {
+        const { fileName, article, snippet } = getSourceInfo(source)
+        return (
+          <li key={`${getSourceKey(source)}-${index}`} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+            <div className="flex items-start justify-between space-x-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{fileName}</p>
+                {article && <p className="text-xs text-indigo-600 dark:text-indigo-400">{article}</p>}
+              </div>
+              <button
+                onClick={() => onOpenSource(source)}
+                className="flex items-center space-x-1 text-xs text-blue-600 dark:text-blue-400 hover:underline flex-shrink-0"
+              >
+                <ExternalLink className="h-3 w-3" />
+                <span>Chunk'ı aç</span>
+              </button>
+            </div>
+            {snippet && <p className="mt-2 text-xs text-gray-600 dark:text-gray-400 line-clamp-3">{snippet}</p>}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+type CaseState = 'not_run' | 'error' | 'changed' | 'unchanged'
+
+const CASE_STATE_STYLES: Record<CaseState, { label: string; className: string; icon: typeof CheckCircle }> = {
+  not_run: { label: 'Çalıştırılmadı', className: 'text-gray-600 bg-gray-50 border-gray-200 dark:text-gray-400 dark:bg-gray-800/20 dark:border-gray-700', icon: Clock },
+  error: { label: 'Hata', className: 'text-red-600 bg-red-50 border-red-200 dark:text-red-400 dark:bg-red-900/20 dark:border-red-800', icon: AlertCircle },
+  changed: { label: 'Kaynaklar değişti', className: 'text-yellow-700 bg-yellow-50 border-yellow-200 dark:text-yellow-300 dark:bg-yellow-900/20 dark:border-yellow-800', icon: AlertTriangle },
+  unchanged: { label: 'Kaynaklar aynı', className: 'text-green-600 bg-green-50 border-green-200 dark:text-green-400 dark:bg-green-900/20 dark:border-green-800', icon: CheckCircle }
+}
+
+const getCaseState = (testCase: RetrievalTestCase): CaseState => {
+  if (!testCase.last_run) return 'not_run'
+  if (testCase.last_run.error) return 'error'
+  const { added, removed } = diffSources(testCase.baseline_sources, testCase.last_run.sources)
+  return added.length > 0 || removed.length > 0 ? 'changed' : 'unchanged'
+}
+
+export default function RetrievalTestTab({ onOpenSource }: RetrievalTestTabProps) {
+  const [question, setQuestion] = useState('')
+  const [askedQuestion, setAskedQuestion] = useState('')
+  const [result, setResult] = useState<ChatResponse | null>(null)
+  const [expectedAnswer, setExpectedAnswer] = useState('')
+  const [isAsking, setIsAsking] = useState(false)
+  const [isRunningAll, setIsRunningAll] = useState(false)
+  const [expandedCase, setExpandedCase] = useState<string | null>(null)
+
+  const { cases, runningIds, addCase, removeCase, runCase, runAllCases, acceptLastRun } = useRetrievalTestStore()
+  const documents = useDocumentStore((state) => state.documents)
+
+  // Newest upload; runs older than this may no longer reflect the index
+  const lastDocumentChange = documents.reduce((latest, doc) => Math.max(latest, new Date(doc.created_at).getTime()), 0)
+  const isOutdated = (testCase: RetrievalTestCase) =>
+    !!testCase.last_run && new Date(testCase.last_run.ran_at).getTime() < lastDocumentChange
+  const changedCount = cases.filter((c) => getCaseState(c) === 'changed').length
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const trimmed = question.trim()
+    if (!trimmed) return
+
+    setIsAsking(true)
+    try {
+      const response = await chatService.sendMessage({ message: trimmed })
+      setResult(response)
+      setAskedQuestion(trimmed)
+      setExpectedAnswer(response.response)
+    } catch (error) {
+      console.error('Test question failed:', error)
+      toast.error('Yanıt alınamadı')
+    } finally {
+      setIsAsking(false)
+    }
+  }
+
+  const handleSaveCase = () => {
+    if (!result) return
+    addCase(askedQuestion, expectedAnswer.trim(), result.sources)
+    toast.success('Regresyon setine eklendi')
+  }
+
+  const handleRunAll = async () => {
+    setIsRunningAll(true)
+    try {
+      await runAllCases()
+      const changed = useRetrievalTestStore.getState().cases.filter((c) => getCaseState(c) === 'changed').length
+      if (changed > 0) {
+        toast.error(`${changed} sorunun kaynakları değişti`)
+      } else {
+        toast.success('Tüm soruların kaynakları aynı')
+      }
+    } finally {
+      setIsRunningAll(false)
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className="space-y-6"
+    >
+      {/* Ask */}
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Soru Test Et</h3>
+        <form onSubmit={handleAsk} className="flex items-start space-x-3">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            rows={2}
+            placeholder="Asistana sorulacak soruyu yazın..."
+            className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 resize-none"
+          />
+          <button
+            type="submit"
+            disabled={isAsking || !question.trim()}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 whitespace-nowrap transition-colors"
+          >
+            {isAsking ? (
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+            <span>Sor</span>
+          </button>
+        </form>
+
+        {result && (
+          <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Yanıt</h4>
+              <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap max-h-80 overflow-y-auto">
+                {result.response}
+              </div>
+
+              <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mt-4 mb-2">Beklenen yanıt</h4>
+              <textarea
+                value={expectedAnswer}
+                onChange={(e) => setExpectedAnswer(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+              />
+              <button
+                onClick={handleSaveCase}
+                className="mt-2 flex items-center space-x-2 px-4 py-2 text-sm text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+              >
+                <Save className="h-4 w-4" />
+                <span>Regresyon setine kaydet</span>
+              </button>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Kaynaklar ({result.sources.length})</h4>
+              <SourceList sources={result.sources} onOpenSource={onOpenSource} />
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Regression set */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Regresyon Seti ({cases.length})</h3>
+            {changedCount > 0 && (
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">{changedCount} sorunun kaynakları kayıttakinden farklı</p>
+            )}
+          </div>
+          <button
+            onClick={handleRunAll}
+            disabled={cases.length === 0 || isRunningAll}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <Play className={`h-4 w-4 ${isRunningAll ? 'animate-pulse' : ''}`} />
+            <span>{isRunningAll ? 'Çalışıyor...' : 'Tümünü çalıştır'}</span>
+          </button>
+        </div>
+
+        {cases.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+            Henüz kayıtlı soru yok. Yukarıdan bir soru sorup sonucu regresyon setine kaydedin.
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {cases.map((testCase) => {
+              const state = getCaseState(testCase)
+              const { label, className, icon: StateIcon } = CASE_STATE_STYLES[state]
+              const isRunning = runningIds.includes(testCase.id)
+              const isExpanded = expandedCase === testCase.id
+              const diff = testCase.last_run ? diffSources(testCase.baseline_sources, testCase.last_run.sources) : null
+
+              return (
+                <li key={testCase.id} className="p-4">
+                  <div className="flex items-center justify-between space-x-4">
+                    <button
+                      onClick={() => setExpandedCase(isExpanded ? null : testCase.id)}
+                      className="flex items-center space-x-2 min-w-0 text-left"
+                    >
+                      {isExpanded ? <ChevronUp className="h-4 w-4 text-gray-400 flex-shrink-0" /> : <ChevronDown className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+                      <span className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{testCase.question}</span>
+                    </button>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      {isOutdated(testCase) && (
+                        <span className="text-xs text-gray-500 dark:text-gray-400" title="Son çalıştırmadan sonra doküman yüklendi">
+                          Yeniden çalıştırın
+                        </span>
+                      )}
+                      <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium border ${className}`}>
+                        <StateIcon className="h-3 w-3" />
+                        <span>{label}</span>
+                      </div>
+                      <button
+                        onClick={() => runCase(testCase.id)}
+                        disabled={isRunning}
+                        className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+                        title="Çalıştır"
+                      >
+                        {isRunning ? (
+                          <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                        ) : (
+                          <Play className="h-4 w-4" />
+                        )}
+                      </button>
+                      <button
+                        onClick={() => removeCase(testCase.id)}
+                        className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        title="Sil"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+                      <div>
+                        <h5 className="font-medium text-gray-900 dark:text-gray-100 mb-1">Beklenen yanıt</h5>
+                        <p className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                          {testCase.expected_answer || '-'}
+                        </p>
+                      </div>
+                      <div>
+                        <h5 className="font-medium text-gray-900 dark:text-gray-100 mb-1">
+                          Son yanıt {testCase.last_run && <span className="font-normal text-gray-500 dark:text-gray-400">({formatDate(testCase.last_run.ran_at)})</span>}
+                        </h5>
+                        <p className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                          {testCase.last_run ? testCase.last_run.error || testCase.last_run.answer : 'Henüz çalıştırılmadı'}
+                        </p>
+                      </div>
+
+                      {diff && !testCase.last_run?.error && (diff.added.length > 0 || diff.removed.length > 0) && (
+                        <div className="lg:col-span-2 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+                          {diff.removed.map((key) => (
+                            <p key={`removed-${key}`} className="text-red-700 dark:text-red-300">− {key}</p>
+                          ))}
+                          {diff.added.map((key) => (
+                            <p key={`added-${key}`} className="text-green-700 dark:text-green-300">+ {key}</p>
+                          ))}
+                          <button
+                            onClick={() => acceptLastRun(testCase.id)}
+                            className="mt-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          >
+                            Yeni kaynakları kabul et
+                          </button>
+                        </div>
+                      )}
+
+                      <div className="lg:col-span-2">
+                        <h5 className="font-medium text-gray-900 dark:text-gray-100 mb-2">
+                          {testCase.last_run && !testCase.last_run.error ? 'Son çalıştırmadaki kaynaklar' : 'Kayıtlı kaynaklar'}
+                        </h5>
+                        <SourceList
+                          sources={testCase.last_run && !testCase.last_run.error ? testCase.last_run.sources : testCase.baseline_sources}
+                          onOpenSource={onOpenSource}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </motion.div>
+  )
+}
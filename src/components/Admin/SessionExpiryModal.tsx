@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Lock, Clock, LogOut, AlertCircle } from 'lucide-react'
+import { useAuthStore } from '../../stores/useAuthStore'
+import toast from 'react-hot-toast'
+
+interface SessionExpiryModalProps {
+  onLogout: () => void
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+// Re-login dialog shown over the dashboard, so tabs, selections and pending
+// uploads survive an expired token
+export default function SessionExpiryModal({ onLogout }: SessionExpiryModalProps) {
+  const { user, sessionStatus, login, checkSession, isLoading, error, clearError } = useAuthStore()
+  const [password, setPassword] = useState('')
+  const [isDismissed, setIsDismissed] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+
+  const isExpired = sessionStatus === 'expired'
+  const isOpen = isExpired || (sessionStatus === 'expiring' && !isDismissed)
+
+  // Timers are paused while the tab sleeps; re-check when it becomes visible
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') checkSession()
+    }
+    document.addEventListener('visibilitychange', handleVisibility)
+    return () => document.removeEventListener('visibilitychange', handleVisibility)
+  }, [checkSession])
+
+  useEffect(() => {
+    if (sessionStatus === 'active') setIsDismissed(false)
+    if (sessionStatus !== 'expiring') return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [sessionStatus])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || !password) return
+
+    try {
+      await login({ email: user.email, password })
+      setPassword('')
+      toast.success('Oturum yenilendi')
+    } catch (error) {
+      console.error('Re-login failed:', error)
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {isOpen && user && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center px-4"
+        >
+          <motion.div
+            initial={{ scale: 0.95, y: 10 }}
+            animate={{ scale: 1, y: 0 }}
+            exit={{ scale: 0.95, y: 10 }}
+            className="w-full max-w-md bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-200 dark:border-gray-700 p-6"
+          >
+            <div className="flex items-center space-x-3 mb-4">
+              <div className={`p-3 rounded-lg ${isExpired ? 'bg-red-100 dark:bg-red-900/30' : 'bg-yellow-100 dark:bg-yellow-900/30'}`}>
+                {isExpired ? (
+                  <Lock className="h-6 w-6 text-red-600 dark:text-red-400" />
+                ) : (
+                  <Clock className="h-6 w-6 text-yellow-600 dark:text-yellow-400" />
+                )}
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                  {isExpired ? 'Oturumunuz sona erdi' : 'Oturumunuz sona ermek üzere'}
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  {isExpired
+                    ? 'Devam etmek için şifrenizi tekrar girin. Açık sayfanız korunacak.'
+                    : `Kalan süre: ${formatRemaining((user.expiresAt ?? now) - now)}`}
+                </p>
+              </div>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">E-posta</label>
+                <input
+                  type="email"
+                  value={user.email}
+                  disabled
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-gray-50 dark:bg-gray-700 text-gray-500 dark:text-gray-400"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Şifre</label>
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => {
+                    setPassword(e.target.value)
+                    if (error) clearError()
+                  }}
+                  autoFocus
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+              </div>
+
+              {error && (
+                <div className="flex items-center space-x-2 text-sm text-red-600 dark:text-red-400">
+                  <AlertCircle className="h-4 w-4" />
+                  <span>{error}</span>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between pt-2">
+                <button
+                  type="button"
+                  onClick={onLogout}
+                  className="flex items-center space-x-2 px-4 py-2 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                >
+                  <LogOut className="h-4 w-4" />
+                  <span>Çıkış</span>
+                </button>
+                <div className="flex items-center space-x-2">
+                  {!isExpired && (
+                    <button
+                      type="button"
+                      onClick={() => setIsDismissed(true)}
+                      className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      Daha sonra
+                    </button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isLoading || !password}
+                    className="px-4 py-2 text-sm font-medium bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {isLoading ? 'Giriş yapılıyor...' : 'Oturumu yenile'}
+                  </button>
+                </div>
+              </div>
+            </form>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
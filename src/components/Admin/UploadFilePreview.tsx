@@ -0,0 +1,34 @@
+import MarkdownMessage from '../Chat/MarkdownMessage'
+import type { FilePreview } from '../../types'
+
+interface UploadFilePreviewProps {
+  preview: FilePreview
+}
+
+// Body of the pre-upload preview; markdown is rendered the way chat answers are
+export default function UploadFilePreview({ preview }: UploadFilePreviewProps) {
+  if (!preview.text) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {preview.kind === 'pdf' ? 'İlk sayfada okunabilir metin bulunamadı' : 'Gösterilecek metin yok'}
+      </p>
+    )
+  }
+
+  return (
+    <div>
+      {preview.kind === 'pdf' && (
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+          İlk sayfa{preview.page_count ? ` (toplam ${preview.page_count} sayfa)` : ''}
+        </p>
+      )}
+      <div className="max-h-64 overflow-y-auto p-3 bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 text-sm text-gray-800 dark:text-gray-200">
+        {preview.kind === 'markdown' ? (
+          <MarkdownMessage content={preview.text} />
+        ) : (
+          <pre className="whitespace-pre-wrap break-words font-sans">{preview.text}</pre>
+        )}
+      </div>
+    </div>
+  )
+}
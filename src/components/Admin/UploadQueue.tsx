@@ -0,0 +1,333 @@
+import React, { useRef, useState } from 'react'
+import { Upload, X, RotateCcw, CheckCircle, AlertCircle, AlertTriangle, Clock, Trash2, ChevronDown, ChevronRight, Eye, EyeOff } from 'lucide-react'
+import MetadataFields from './MetadataFields'
+import UploadFilePreview from './UploadFilePreview'
+import { useDocumentStore } from '../../stores/useDocumentStore'
+import { useDocumentMetadataStore } from '../../stores/useDocumentMetadataStore'
+import { formatFileSize } from '../../utils'
+import { getFacultyOptions, isEmptyMetadata, mergeMetadata } from '../../utils/documentMetadata'
+import { isBlockingDuplicate } from '../../utils/documentSimilarity'
+import toast from 'react-hot-toast'
+import type { DocumentMetadata, DocumentUploadProgress, FilePreviewIssue, UploadDuplicate } from '../../types'
+
+const ACCEPTED_EXTENSIONS = '.pdf,.doc,.docx,.txt,.md'
+
+const STATUS_LABELS: Record<DocumentUploadProgress['status'], string> = {
+  pending: 'Sırada',
+  uploading: 'Gönderiliyor',
+  processing: 'İşleniyor',
+  success: 'Tamamlandı',
+  error: 'Hata',
+  cancelled: 'İptal edildi'
+}
+
+const STATUS_STYLES: Record<DocumentUploadProgress['status'], string> = {
+  pending: 'text-gray-600 dark:text-gray-400',
+  uploading: 'text-blue-600 dark:text-blue-400',
+  processing: 'text-indigo-600 dark:text-indigo-400',
+  success: 'text-green-600 dark:text-green-400',
+  error: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-gray-500 dark:text-gray-400'
+}
+
+const describeDuplicate = ({ file_name, reason }: UploadDuplicate) => {
+  switch (reason) {
+    case 'hash': return `Aynı içerik zaten yüklü: ${file_name}`
+    case 'name': return 'Bu adla bir doküman zaten var. Güncellemek için dokümanın "Yeni sürüm yükle" işlemini kullanın.'
+    case 'size': return `Aynı boyutta bir doküman var, aynı dosya olabilir: ${file_name}. Yükleme bu yüzden bekletilmez.`
+    case 'queue': return `Aynı dosya kuyrukta zaten var: ${file_name}`
+  }
+}
+
+const PREVIEW_ISSUE_LABELS: Record<FilePreviewIssue, string> = {
+  empty: 'Dosya boş görünüyor; yüklenirse aranabilir içerik oluşmaz.',
+  scanned: 'Taranmış (yalnızca görüntüden oluşan) bir PDF gibi görünüyor; metni okunamayabilir.',
+  unreadable: 'Önizleme için metin çıkarılamadı.'
+}
+
+const isAwaitingConfirmation = (entry: DocumentUploadProgress) =>
+  entry.status === 'pending' && isBlockingDuplicate(entry.duplicate) && !entry.allow_duplicate
+
+function StatusIcon({ status }: { status: DocumentUploadProgress['status'] }) {
+  if (status === 'success') return <CheckCircle className="h-4 w-4 text-green-500" />
+  if (status === 'error') return <AlertCircle className="h-4 w-4 text-red-500" />
+  if (status === 'uploading' || status === 'processing') {
+    return <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+  }
+  return <Clock className="h-4 w-4 text-gray-400" />
+}
+
+function ProgressBar({ value, className }: { value: number; className: string }) {
+  return (
+    <div className="w-full bg-gray-200 dark:bg-gray-600 rounded-full h-1.5">
+      <div className={`${className} h-1.5 rounded-full transition-all duration-300`} style={{ width: `${value}%` }} />
+    </div>
+  )
+}
+
+export default function UploadQueue() {
+  const [isDragging, setIsDragging] = useState(false)
+  const [showMetadata, setShowMetadata] = useState(false)
+  const [metadata, setMetadata] = useState<DocumentMetadata>({})
+  const [previewId, setPreviewId] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const {
+    uploadFiles,
+    addUploadFiles,
+    startUploadQueue,
+    cancelUploadFile,
+    retryUploadFile,
+    removeUploadFile,
+    clearUploadFiles,
+    allowDuplicateUpload,
+    maxUploadSizeMb,
+    setMaxUploadSizeMb
+  } = useDocumentStore()
+  const { byFileName, setMetadata: saveMetadata } = useDocumentMetadataStore()
+
+  const pendingCount = uploadFiles.filter((f) => f.status === 'pending' && !isAwaitingConfirmation(f)).length
+  const awaitingCount = uploadFiles.filter(isAwaitingConfirmation).length
+  const isTransferring = uploadFiles.some((f) => f.status === 'uploading')
+  const hasFinished = uploadFiles.some((f) => f.status === 'success' || f.status === 'error' || f.status === 'cancelled')
+
+  // The batch metadata applies to every file waiting in the queue when the
+  // upload starts; files already uploaded keep what they had
+  const handleStart = () => {
+    if (!isEmptyMetadata(metadata)) {
+      uploadFiles
+        .filter((f) => f.status === 'pending')
+        .forEach((f) => saveMetadata(f.file.name, mergeMetadata(byFileName[f.file.name], metadata)))
+    }
+    startUploadQueue()
+  }
+
+  const queueFiles = (files: File[]) => {
+    if (files.length === 0) return
+    const { unsupported, oversized } = addUploadFiles(files)
+    if (unsupported.length > 0) {
+      toast.error(`Desteklenmeyen dosya türü: ${unsupported.join(', ')}`)
+    }
+    if (oversized.length > 0) {
+      toast.error(`${maxUploadSizeMb} MB sınırını aşan dosyalar eklenmedi: ${oversized.join(', ')}`)
+    }
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    queueFiles(Array.from(e.target.files ?? []))
+    // Allow picking the same file again after removing it
+    e.target.value = ''
+  }
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    setIsDragging(false)
+    queueFiles(Array.from(e.dataTransfer.files))
+  }
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Doküman Yükle</h3>
+        <div className="flex items-center space-x-2">
+          {hasFinished && (
+            <button
+              onClick={clearUploadFiles}
+              className="flex items-center space-x-2 px-3 py-2 text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <Trash2 className="h-4 w-4" />
+              <span>Tamamlananları temizle</span>
+            </button>
+          )}
+          <button
+            onClick={handleStart}
+            disabled={pendingCount === 0 || isTransferring}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 whitespace-nowrap transition-colors"
+          >
+            <Upload className="h-4 w-4" />
+            <span>{pendingCount > 0 ? `Yüklemeyi başlat (${pendingCount})` : 'Yüklemeyi başlat'}</span>
+          </button>
+        </div>
+      </div>
+
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragging(true)
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`flex flex-col items-center justify-center p-6 border-2 border-dashed rounded-lg cursor-pointer transition-colors ${
+          isDragging
+            ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+            : 'border-gray-300 dark:border-gray-600 hover:border-blue-400 dark:hover:border-blue-500'
+        }`}
+      >
+        <Upload className="h-8 w-8 text-gray-400 mb-2" />
+        <p className="text-sm text-gray-700 dark:text-gray-300">Dosyaları buraya sürükleyin veya seçmek için tıklayın</p>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">PDF, DOC, DOCX, TXT, MD • en fazla {maxUploadSizeMb} MB</p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_EXTENSIONS}
+          onChange={handleInputChange}
+          className="hidden"
+        />
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <button
+          onClick={() => setShowMetadata(!showMetadata)}
+          className="flex items-center space-x-1 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-blue-600 dark:hover:text-blue-400"
+        >
+          {showMetadata ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+          <span>Yönetici notları</span>
+          {!isEmptyMetadata(metadata) && <span className="text-xs text-blue-600 dark:text-blue-400">(girildi)</span>}
+        </button>
+        <label className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>Dosya boyutu sınırı (MB)</span>
+          <input
+            type="number"
+            min={1}
+            value={maxUploadSizeMb}
+            onChange={(e) => setMaxUploadSizeMb(Math.max(1, Number(e.target.value) || 1))}
+            className="w-20 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+        </label>
+      </div>
+      <div>
+        {showMetadata && (
+          <div className="mt-3 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Yüklemeyi başlattığınızda sıradaki tüm dosyalar için bu tarayıcıya kaydedilir. Notlar dosyalarla birlikte sunucuya gönderilmez ve öğrencilere gösterilmez.
+            </p>
+            <MetadataFields
+              value={metadata}
+              onChange={setMetadata}
+              facultySuggestions={getFacultyOptions(Object.values(byFileName))}
+            />
+          </div>
+        )}
+      </div>
+
+      {awaitingCount > 0 && (
+        <p className="mt-4 text-sm text-yellow-700 dark:text-yellow-400">
+          {awaitingCount} dosya zaten yüklenmiş olabilir; onaylanana kadar yüklenmeyecek.
+        </p>
+      )}
+
+      {uploadFiles.length > 0 && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Aynı içerik denetimi yalnızca bu tarayıcıdan yüklenen dosyaları tanır; diğer dokümanlarla yalnızca ad ve boyut karşılaştırılır.
+        </p>
+      )}
+
+      {uploadFiles.length > 0 && (
+        <ul className="mt-4 divide-y divide-gray-200 dark:divide-gray-700">
+          {uploadFiles.map((entry) => (
+            <li key={entry.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <StatusIcon status={entry.status} />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{entry.file.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatFileSize(entry.file.size)} •{' '}
+                      {entry.preview?.page_count ? `${entry.preview.page_count} sayfa • ` : ''}
+                      {isAwaitingConfirmation(entry) ? (
+                        <span className="text-yellow-600 dark:text-yellow-400">Onay bekliyor</span>
+                      ) : (
+                        <span className={STATUS_STYLES[entry.status]}>{STATUS_LABELS[entry.status]}</span>
+                      )}
+                      {entry.error && <span className="text-red-600 dark:text-red-400"> — {entry.error}</span>}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-1 flex-shrink-0">
+                  {entry.preview && entry.preview.kind !== 'none' && (
+                    <button
+                      onClick={() => setPreviewId(previewId === entry.id ? null : entry.id)}
+                      className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                      title={previewId === entry.id ? 'Önizlemeyi kapat' : 'Önizle'}
+                    >
+                      {previewId === entry.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    </button>
+                  )}
+                  {((entry.status === 'pending' && !isAwaitingConfirmation(entry)) || entry.status === 'uploading') && (
+                    <button
+                      onClick={() => cancelUploadFile(entry.id)}
+                      className="p-1 text-gray-500 hover:text-red-600 dark:hover:text-red-400 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                      title="İptal et"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  )}
+                  {(entry.status === 'error' || entry.status === 'cancelled') && (
+                    <button
+                      onClick={() => retryUploadFile(entry.id)}
+                      className="p-1 text-gray-500 hover:text-blue-600 dark:hover:text-blue-400 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                      title="Tekrar dene"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  )}
+                  {(entry.status === 'success' || entry.status === 'error' || entry.status === 'cancelled' || isAwaitingConfirmation(entry)) && (
+                    <button
+                      onClick={() => removeUploadFile(entry.id)}
+                      className="p-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                      title="Listeden kaldır"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {entry.status === 'pending' && entry.preview?.issues.map((issue) => (
+                <div key={issue} className="mt-2 flex items-start space-x-2 p-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-xs text-yellow-800 dark:text-yellow-300">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                  <span>{PREVIEW_ISSUE_LABELS[issue]}</span>
+                </div>
+              ))}
+              {previewId === entry.id && entry.preview && (
+                <div className="mt-2">
+                  <UploadFilePreview preview={entry.preview} />
+                </div>
+              )}
+              {entry.duplicate && entry.status === 'pending' && (
+                <div className="mt-2 flex items-start justify-between gap-3 p-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-xs text-yellow-800 dark:text-yellow-300">
+                  <div className="flex items-start space-x-2 min-w-0">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    <span className="break-words">{describeDuplicate(entry.duplicate)}</span>
+                  </div>
+                  {isAwaitingConfirmation(entry) && (
+                    <button
+                      onClick={() => allowDuplicateUpload(entry.id)}
+                      className="flex-shrink-0 px-2 py-1 rounded hover:bg-yellow-100 dark:hover:bg-yellow-900/40 font-medium"
+                    >
+                      Yine de yükle
+                    </button>
+                  )}
+                </div>
+              )}
+              {entry.status === 'uploading' && (
+                <div className="mt-2 flex items-center space-x-2">
+                  <ProgressBar value={entry.progress} className="bg-blue-600 dark:bg-blue-400" />
+                  <span className="text-xs text-gray-500 dark:text-gray-400 w-10 text-right">{entry.progress}%</span>
+                </div>
+              )}
+              {entry.status === 'processing' && (
+                <div className="mt-2 flex items-center space-x-2">
+                  <ProgressBar value={entry.processing_progress ?? 0} className="bg-indigo-500 dark:bg-indigo-400" />
+                  <span className="text-xs text-gray-500 dark:text-gray-400 w-10 text-right">{entry.processing_progress ?? 0}%</span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { motion } from 'framer-motion'
+import { X, CheckCircle, AlertCircle, Clock, RotateCcw, Upload } from 'lucide-react'
+import { documentService } from '../../services/api'
+import { useDocumentStore } from '../../stores/useDocumentStore'
+import { formatDate, formatDuration } from '../../utils'
+import toast from 'react-hot-toast'
+import type { DocumentUploadProgress, UploadProgress, UploadSession, UploadSessionFile } from '../../types'
+
+interface UploadSessionDrawerProps {
+  session: UploadSession
+  readOnly?: boolean
+  onClose: () => void
+}
+
+interface SessionFileRow {
+  file_name: string
+  status: UploadSessionFile['status']
+  error_message?: string
+  // Queue entry still holding the File, so it can be re-sent without re-selecting
+  queueId?: string
+}
+
+const STATUS_LABELS: Record<UploadSessionFile['status'], string> = {
+  pending: 'Bekliyor',
+  processing: 'İşleniyor',
+  completed: 'Başarılı',
+  error: 'Başarısız'
+}
+
+const fromQueueStatus = (status: DocumentUploadProgress['status']): UploadSessionFile['status'] => {
+  if (status === 'success') return 'completed'
+  if (status === 'error') return 'error'
+  if (status === 'processing') return 'processing'
+  return 'pending'
+}
+
+// Server-reported files take precedence; files still in this tab's upload
+// queue fill the gaps for backends that don't list them
+const buildFileRows = (serverFiles: UploadSessionFile[] | undefined, queued: DocumentUploadProgress[]): SessionFileRow[] => {
+  const rows: SessionFileRow[] = (serverFiles ?? []).map((file) => ({ ...file }))
+  queued.forEach((entry) => {
+    const row = rows.find((r) => r.file_name === entry.file.name)
+    if (row) {
+      row.queueId = entry.id
+    } else {
+      rows.push({
+        file_name: entry.file.name,
+        status: fromQueueStatus(entry.status),
+        error_message: entry.error,
+        queueId: entry.id
+      })
+    }
+  })
+  return rows
+}
+
+function FileStatusIcon({ status }: { status: UploadSessionFile['status'] }) {
+  if (status === 'completed') return <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+  if (status === 'error') return <AlertCircle className="h-4 w-4 text-red-500 flex-shrink-0" />
+  return <Clock className="h-4 w-4 text-gray-400 flex-shrink-0" />
+}
+
+export default function UploadSessionDrawer({ session, readOnly = false, onClose }: UploadSessionDrawerProps) {
+  const [detail, setDetail] = useState<UploadProgress | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const { uploadFiles, addUploadFiles, retryUploadFile, startUploadQueue, maxUploadSizeMb } = useDocumentStore()
+  const queued = uploadFiles.filter((entry) => entry.session_id === session.session_id)
+
+  useEffect(() => {
+    let ignore = false
+    setIsLoading(true)
+    documentService.getUploadProgress(session.session_id)
+      .then((progress) => {
+        if (!ignore) setDetail(progress)
+      })
+      .catch((error) => {
+        // Older sessions may have been dropped by the server; the list row is still shown
+        console.error('Failed to load upload session:', error)
+      })
+      .finally(() => {
+        if (!ignore) setIsLoading(false)
+      })
+    return () => {
+      ignore = true
+    }
+  }, [session.session_id])
+
+  const status = detail?.status ?? session.status
+  const startedAt = detail?.started_at ?? session.started_at
+  const completedAt = detail?.completed_at ?? session.completed_at
+  const errorMessage = detail?.error_message ?? session.error_message
+  const rows = buildFileRows(detail?.files ?? session.files, queued)
+  const failedRows = rows.filter((row) => row.status === 'error')
+  const retryableRows = failedRows.filter((row) => row.queueId)
+  const reselectCount = failedRows.length - retryableRows.length
+
+  const handleRetryFailed = () => {
+    retryableRows.forEach((row) => retryUploadFile(row.queueId!))
+    toast.success(`${retryableRows.length} dosya yeniden kuyruğa alındı`)
+  }
+
+  const handleReselect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? [])
+    e.target.value = ''
+    if (files.length === 0) return
+
+    const { unsupported, oversized } = addUploadFiles(files)
+    if (unsupported.length > 0) toast.error(`Desteklenmeyen dosya türü: ${unsupported.join(', ')}`)
+    if (oversized.length > 0) toast.error(`${maxUploadSizeMb} MB sınırını aşan dosyalar eklenmedi: ${oversized.join(', ')}`)
+    if (unsupported.length + oversized.length < files.length) {
+      startUploadQueue()
+      toast.success('Dosyalar yükleme kuyruğuna eklendi')
+    }
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-40 bg-black/30"
+      onClick={onClose}
+    >
+      <motion.aside
+        initial={{ x: '100%' }}
+        animate={{ x: 0 }}
+        exit={{ x: '100%' }}
+        transition={{ type: 'tween', duration: 0.2 }}
+        onClick={(e) => e.stopPropagation()}
+        className="absolute right-0 top-0 h-full w-full max-w-lg bg-white dark:bg-gray-800 shadow-xl border-l border-gray-200 dark:border-gray-700 flex flex-col"
+      >
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Upload Session</h3>
+            <p className="text-sm font-mono text-gray-500 dark:text-gray-400 break-all">{session.session_id}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Durum</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100 capitalize">{status}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Yükleyen</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100 break-all">{session.created_by || '-'}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Başlangıç</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">{formatDate(startedAt)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Süre</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">
+                {completedAt ? formatDuration(startedAt, completedAt) : 'Devam ediyor'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">Dosya</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">{detail?.total_files ?? session.total_files}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500 dark:text-gray-400">İşlenen</dt>
+              <dd className="font-medium text-gray-900 dark:text-gray-100">{detail?.processed_files ?? session.processed_files}</dd>
+            </div>
+          </dl>
+
+          {errorMessage && (
+            <div className="flex items-start space-x-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span className="break-words">{errorMessage}</span>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-3">Dosyalar</h4>
+            {rows.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {isLoading ? 'Yükleniyor...' : 'Sunucu bu oturum için dosya listesi bildirmiyor'}
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                {rows.map((row, index) => (
+                  <li key={`${row.file_name}-${index}`} className="p-3">
+                    <div className="flex items-center justify-between space-x-3">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        <FileStatusIcon status={row.status} />
+                        <span className="text-sm text-gray-900 dark:text-gray-100 truncate">{row.file_name}</span>
+                      </div>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{STATUS_LABELS[row.status]}</span>
+                    </div>
+                    {row.error_message && (
+                      <p className="mt-1 ml-6 text-xs text-red-600 dark:text-red-400 break-words">{row.error_message}</p>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        {!readOnly && failedRows.length > 0 && (
+          <div className="p-6 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            {retryableRows.length > 0 && (
+              <button
+                onClick={handleRetryFailed}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium rounded-lg transition-colors"
+              >
+                <RotateCcw className="h-4 w-4" />
+                <span>Başarısız dosyaları tekrar dene ({retryableRows.length})</span>
+              </button>
+            )}
+            {reselectCount > 0 && (
+              <>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {reselectCount} başarısız dosya bu sekmede bulunmuyor; tekrar denemek için dosyaları yeniden seçin.
+                </p>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full flex items-center justify-center space-x-2 px-4 py-2 text-sm text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                >
+                  <Upload className="h-4 w-4" />
+                  <span>Dosyaları yeniden seç</span>
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept=".pdf,.doc,.docx,.txt,.md"
+                  onChange={handleReselect}
+                  className="hidden"
+                />
+              </>
+            )}
+          </div>
+        )}
+      </motion.aside>
+    </motion.div>
+  )
+}
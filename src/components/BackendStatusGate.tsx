@@ -0,0 +1,75 @@
+import { useState, useEffect, useCallback, type ReactNode } from 'react'
+import { motion } from 'framer-motion'
+import { RefreshCw, ServerOff } from 'lucide-react'
+import axios from 'axios'
+import { systemService } from '../services/api'
+import { getConfig } from '../services/config'
+
+type BackendStatus = 'checking' | 'online' | 'unreachable'
+
+// Renders the app only once the backend answers. Any HTTP response counts as
+// reachable; only network failures (wrong base URL, server down, CORS) block.
+export default function BackendStatusGate({ children }: { children: ReactNode }) {
+  const [status, setStatus] = useState<BackendStatus>('checking')
+
+  const checkBackend = useCallback(async () => {
+    setStatus('checking')
+    try {
+      await systemService.getHealth()
+      setStatus('online')
+    } catch (error) {
+      setStatus(axios.isAxiosError(error) && !error.response ? 'unreachable' : 'online')
+    }
+  }, [])
+
+  useEffect(() => {
+    checkBackend()
+  }, [checkBackend])
+
+  if (status === 'online') return <>{children}</>
+
+  if (status === 'checking') {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <motion.div
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="max-w-md w-full text-center"
+      >
+        <img
+          src="/ABU-logo-tr-lacivert.png"
+          alt="ABU Logo"
+          className="h-16 w-auto mx-auto mb-6"
+        />
+
+        <div className="inline-flex p-4 bg-red-100 rounded-full mb-4">
+          <ServerOff className="h-8 w-8 text-red-600" />
+        </div>
+        <h2 className="text-2xl font-semibold text-gray-800 mb-2">
+          Sunucuya Ulaşılamıyor
+        </h2>
+        <p className="text-gray-600 mb-2">
+          Asistan şu anda hizmet veremiyor. Lütfen birkaç dakika sonra tekrar deneyin.
+        </p>
+        <p className="text-xs text-gray-400 font-mono mb-6 break-all">
+          {getConfig().apiBaseUrl}
+        </p>
+
+        <button
+          onClick={checkBackend}
+          className="inline-flex items-center space-x-2 bg-blue-600 hover:bg-blue-700 text-white font-medium py-3 px-6 rounded-xl transition-colors"
+        >
+          <RefreshCw className="h-5 w-5" />
+          <span>Tekrar Dene</span>
+        </button>
+      </motion.div>
+    </div>
+  )
+}
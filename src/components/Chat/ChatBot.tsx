@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Send, Bot, User, Loader2 } from 'lucide-react';
 import { useChatStore } from '../../stores/useChatStore';
+import MarkdownMessage from './MarkdownMessage';
 
 const ChatBot: React.FC = () => {
   const [inputMessage, setInputMessage] = useState('');
@@ -121,7 +122,11 @@ const ChatBot: React.FC = () => {
                         ? 'bg-navy-600 dark:bg-navy-700 text-white rounded-br-md'
                         : 'bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-bl-md border border-gray-200 dark:border-gray-600'
                     }`}>
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.role === 'assistant' ? (
+                        <MarkdownMessage content={message.content} className="text-sm" />
+                      ) : (
+                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      )}
                       <p className="text-xs mt-2 opacity-70">
                         {new Date(message.timestamp).toLocaleTimeString('tr-TR', {
                           hour: '2-digit',
@@ -145,7 +150,11 @@ const ChatBot: React.FC = () => {
                       <Bot size={12} className="text-gray-600 dark:text-gray-300" />
                     </div>
                     <div className="bg-white dark:bg-gray-700 rounded-2xl rounded-bl-md px-4 py-3 border border-gray-200 dark:border-gray-600">
-                      <p className="text-sm whitespace-pre-wrap text-gray-900 dark:text-gray-100">{streamingMessage}</p>
+                      <MarkdownMessage
+                        content={streamingMessage}
+                        streaming
+                        className="text-sm text-gray-900 dark:text-gray-100"
+                      />
                       <div className="flex items-center space-x-1 mt-2">
                         <div className="w-1 h-1 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce" />
                         <div className="w-1 h-1 bg-gray-400 dark:bg-gray-500 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
@@ -0,0 +1,248 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MessageSquare, MessageSquarePlus, Pencil, Trash2, Search, Check, X, History } from 'lucide-react';
+import { useChatStore, HISTORY_CONVERSATION_ID, type Conversation } from '../../stores/useChatStore';
+
+interface ConversationSidebarProps {
+  isDark: boolean;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatConversationDate = (date: Date): string => {
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('tr-TR', { day: '2-digit', month: 'short' });
+};
+
+const matchesSearch = (conversation: Conversation, query: string): boolean => {
+  const needle = query.toLocaleLowerCase('tr-TR');
+  return (
+    conversation.title.toLocaleLowerCase('tr-TR').includes(needle) ||
+    conversation.messages.some((m) => m.content.toLocaleLowerCase('tr-TR').includes(needle))
+  );
+};
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ isDark, isOpen, onClose }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const {
+    conversations,
+    activeConversationId,
+    isStreaming,
+    newConversation,
+    switchConversation,
+    renameConversation,
+    deleteConversation,
+    clearChatHistory,
+  } = useChatStore();
+
+  const hasServerHistory = conversations.some((c) => c.id === HISTORY_CONVERSATION_ID);
+
+  const visibleConversations = useMemo(() => {
+    const query = searchTerm.trim();
+    return conversations
+      .filter((c) => c.messages.length > 0 || c.id === activeConversationId)
+      .filter((c) => !query || matchesSearch(c, query))
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }, [conversations, activeConversationId, searchTerm]);
+
+  const handleNew = () => {
+    newConversation();
+    onClose();
+  };
+
+  const handleSelect = (conversationId: string) => {
+    if (editingId) return;
+    switchConversation(conversationId);
+    onClose();
+  };
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId) renameConversation(editingId, editingTitle);
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (conversation.id === HISTORY_CONVERSATION_ID) {
+      handleClearHistory();
+      return;
+    }
+    if (!confirm(`"${conversation.title}" sohbetini silmek istediğinizden emin misiniz?`)) return;
+    deleteConversation(conversation.id);
+  };
+
+  const handleClearHistory = () => {
+    if (!confirm('Sunucudaki tüm sohbet geçmişiniz silinecek. Devam etmek istiyor musunuz?')) return;
+    clearChatHistory();
+  };
+
+  const iconButtonClass = `p-1 rounded transition-colors ${
+    isDark ? 'text-navy-400 hover:text-white hover:bg-navy-700' : 'text-navy-500 hover:text-navy-800 hover:bg-navy-100'
+  }`;
+
+  return (
+    <>
+      {/* Mobile backdrop */}
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+            className="fixed inset-0 bg-black/40 z-30 lg:hidden"
+          />
+        )}
+      </AnimatePresence>
+
+      <aside className={`fixed lg:static inset-y-0 left-0 z-40 w-72 flex-shrink-0 flex flex-col border-r transition-transform duration-300 lg:translate-x-0 ${
+        isOpen ? 'translate-x-0' : '-translate-x-full'
+      } ${
+        isDark ? 'bg-dark-navy border-navy-800' : 'bg-white border-navy-200'
+      }`}>
+        <div className="p-4 space-y-3">
+          <button
+            onClick={handleNew}
+            disabled={isStreaming}
+            className={`w-full flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+              isDark ? 'bg-navy-700 hover:bg-navy-600 text-white' : 'bg-navy-600 hover:bg-navy-700 text-white'
+            }`}
+          >
+            <MessageSquarePlus className="w-4 h-4" />
+            <span>Yeni sohbet</span>
+          </button>
+
+          <div className="relative">
+            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-navy-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Sohbetlerde ara..."
+              className={`w-full pl-9 pr-3 py-2 rounded-lg text-sm outline-none border ${
+                isDark
+                  ? 'bg-navy-900/60 border-navy-700 text-navy-100 placeholder:text-navy-500'
+                  : 'bg-navy-50 border-navy-200 text-navy-900 placeholder:text-navy-400'
+              }`}
+            />
+          </div>
+        </div>
+
+        <nav className="flex-1 overflow-y-auto px-2 pb-4 space-y-1">
+          {visibleConversations.map((conversation) => {
+            const isActive = conversation.id === activeConversationId;
+            const isEditing = conversation.id === editingId;
+
+            return (
+              <div
+                key={conversation.id}
+                onClick={() => !isStreaming && handleSelect(conversation.id)}
+                className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors ${
+                  isStreaming && !isActive ? 'cursor-not-allowed opacity-60' : 'cursor-pointer'
+                } ${
+                  isActive
+                    ? isDark ? 'bg-navy-800 text-white' : 'bg-navy-100 text-navy-900'
+                    : isDark ? 'text-navy-300 hover:bg-navy-800/60' : 'text-navy-700 hover:bg-navy-50'
+                }`}
+              >
+                {conversation.id === HISTORY_CONVERSATION_ID ? (
+                  <History className="w-4 h-4 flex-shrink-0 opacity-70" />
+                ) : (
+                  <MessageSquare className="w-4 h-4 flex-shrink-0 opacity-70" />
+                )}
+
+                {isEditing ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={editingTitle}
+                      onChange={(e) => setEditingTitle(e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitEditing();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className={`flex-1 min-w-0 px-1 py-0.5 rounded text-sm outline-none border ${
+                        isDark ? 'bg-navy-900 border-navy-600 text-white' : 'bg-white border-navy-300 text-navy-900'
+                      }`}
+                    />
+                    <button
+                      onClick={(e) => { e.stopPropagation(); commitEditing(); }}
+                      className={iconButtonClass}
+                      title="Kaydet"
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setEditingId(null); }}
+                      className={iconButtonClass}
+                      title="Vazgeç"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate" title={conversation.title}>{conversation.title}</p>
+                      <p className="text-xs opacity-60">{formatConversationDate(conversation.updatedAt)}</p>
+                    </div>
+                    <div className="hidden group-hover:flex items-center">
+                      <button
+                        onClick={(e) => { e.stopPropagation(); startEditing(conversation); }}
+                        className={iconButtonClass}
+                        title="Yeniden adlandır"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(conversation); }}
+                        disabled={isStreaming && isActive}
+                        className={iconButtonClass}
+                        title="Sil"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {visibleConversations.length === 0 && (
+            <p className={`text-center text-sm py-6 ${isDark ? 'text-navy-500' : 'text-navy-400'}`}>
+              {searchTerm ? 'Eşleşen sohbet bulunamadı' : 'Henüz sohbet yok'}
+            </p>
+          )}
+        </nav>
+
+        {hasServerHistory && (
+          <div className={`p-4 border-t ${isDark ? 'border-navy-800' : 'border-navy-200'}`}>
+            <button
+              onClick={handleClearHistory}
+              disabled={isStreaming}
+              className={`w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors disabled:opacity-50 ${
+                isDark ? 'text-red-400 hover:bg-red-900/20' : 'text-red-600 hover:bg-red-50'
+              }`}
+            >
+              <Trash2 className="w-4 h-4" />
+              <span>Geçmişi temizle</span>
+            </button>
+          </div>
+        )}
+      </aside>
+    </>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,151 @@
+import React, { useMemo } from 'react';
+import { parseMarkdown, type BlockNode, type InlineNode, type MarkdownBlock } from '../../utils/markdown';
+import { cn } from '../../utils';
+
+interface MarkdownMessageProps {
+  content: string;
+  // The content is still being received; incomplete markers are hidden
+  streaming?: boolean;
+  className?: string;
+}
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{node.value}</React.Fragment>;
+      case 'strong':
+        return <strong key={index} className="font-semibold">{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 py-0.5 rounded bg-black/5 dark:bg-white/10 font-mono text-[0.85em]">
+            {node.value}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="underline underline-offset-2 break-words hover:opacity-80"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+      case 'break':
+        return <br key={index} />;
+    }
+  });
+
+const ALIGN_CLASS = { left: 'text-left', center: 'text-center', right: 'text-right' } as const;
+
+const renderBlock = (node: BlockNode, key?: React.Key): React.ReactNode => {
+  switch (node.type) {
+    case 'paragraph':
+      return <p key={key}>{renderInline(node.children)}</p>;
+
+    case 'heading': {
+      const Tag = `h${Math.min(node.level + 2, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+      return (
+        <Tag key={key} className={cn('font-semibold', node.level <= 2 ? 'text-base' : 'text-sm')}>
+          {renderInline(node.children)}
+        </Tag>
+      );
+    }
+
+    case 'list': {
+      const ListTag = node.ordered ? 'ol' : 'ul';
+      return (
+        <ListTag
+          key={key}
+          start={node.ordered && node.start !== 1 ? node.start : undefined}
+          className={cn('space-y-1 pl-5', node.ordered ? 'list-decimal' : 'list-disc')}
+        >
+          {node.items.map((item, index) => (
+            <li key={index} style={item.depth > 0 ? { marginLeft: `${item.depth * 1.25}rem` } : undefined}>
+              {renderInline(item.children)}
+            </li>
+          ))}
+        </ListTag>
+      );
+    }
+
+    case 'code':
+      return (
+        <pre key={key} className="p-3 rounded-lg bg-black/5 dark:bg-white/10 overflow-x-auto text-xs">
+          <code className="font-mono">{node.value}</code>
+        </pre>
+      );
+
+    case 'blockquote':
+      return (
+        <blockquote key={key} className="pl-3 border-l-2 border-black/20 dark:border-white/30 opacity-90 space-y-2">
+          {node.children.map((child, index) => renderBlock(child, index))}
+        </blockquote>
+      );
+
+    case 'table':
+      return (
+        <div key={key} className="overflow-x-auto">
+          <table className="min-w-full text-xs border-collapse">
+            <thead>
+              <tr>
+                {node.header.map((cell, index) => (
+                  <th
+                    key={index}
+                    className={cn('px-2 py-1.5 border-b border-black/15 dark:border-white/20 font-semibold', ALIGN_CLASS[node.align[index] ?? 'left'])}
+                  >
+                    {renderInline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {node.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b border-black/5 dark:border-white/10 last:border-0">
+                  {node.header.map((_, index) => (
+                    <td key={index} className={cn('px-2 py-1.5 align-top', ALIGN_CLASS[node.align[index] ?? 'left'])}>
+                      {renderInline(row[index] ?? [])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+
+    case 'hr':
+      return <hr key={key} className="border-black/15 dark:border-white/20" />;
+  }
+};
+
+// Blocks whose source is unchanged are not re-rendered while an answer streams
+const MarkdownBlockView = React.memo(
+  ({ block }: { block: MarkdownBlock; streaming: boolean }) => <>{renderBlock(block.node)}</>,
+  (prev, next) => prev.block.source === next.block.source && prev.streaming === next.streaming
+);
+
+MarkdownBlockView.displayName = 'MarkdownBlockView';
+
+const MarkdownMessage: React.FC<MarkdownMessageProps> = ({ content, streaming = false, className }) => {
+  const blocks = useMemo(() => parseMarkdown(content, { streaming }), [content, streaming]);
+
+  return (
+    <div className={cn('space-y-2 break-words', className)}>
+      {blocks.map((block, index) => (
+        <MarkdownBlockView
+          key={index}
+          block={block}
+          streaming={streaming && index === blocks.length - 1}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default MarkdownMessage;
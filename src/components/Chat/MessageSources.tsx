@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FileText, ChevronDown } from 'lucide-react';
+import type { ChatSource } from '../../types';
+import { getSourceInfo, truncateText } from '../../utils';
+import { CATEGORY_LABELS, formatValidity, isEmptyMetadata, parseDocumentMetadata } from '../../utils/documentMetadata';
+
+interface MessageSourcesProps {
+  sources: ChatSource[];
+  isDark: boolean;
+}
+
+// Citation chips shown under an assistant answer. Each chip expands to the
+// chunk the answer was generated from, along with the metadata the source
+// carries. Admin notes live in the admin's browser and are not shown here; see
+// useDocumentMetadataStore for what the backend is missing.
+const MessageSources: React.FC<MessageSourcesProps> = ({ sources, isDark }) => {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
+
+  // The same chunk can be retrieved more than once; show it a single time
+  const citations = useMemo(() => {
+    const seen = new Set<string>();
+    return sources
+      .map((source) => {
+        const info = getSourceInfo(source);
+        const metadata = parseDocumentMetadata(source);
+        return { ...info, metadata, validity: formatValidity(metadata) };
+      })
+      .filter((info) => {
+        const key = `${info.fileName}|${info.article ?? ''}|${info.snippet ?? ''}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+  }, [sources]);
+
+  if (citations.length === 0) return null;
+
+  const expanded = expandedIndex !== null ? citations[expandedIndex] : null;
+
+  return (
+    <div className="mt-3">
+      <p className={`text-xs font-medium mb-2 ${isDark ? 'text-navy-400' : 'text-navy-500'}`}>
+        Kaynaklar
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {citations.map((citation, index) => (
+          <button
+            key={index}
+            type="button"
+            onClick={() => setExpandedIndex(expandedIndex === index ? null : index)}
+            title={citation.article ? `${citation.fileName} — ${citation.article}` : citation.fileName}
+            className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs border transition-colors max-w-full ${
+              expandedIndex === index
+                ? isDark
+                  ? 'bg-navy-600 border-navy-500 text-white'
+                  : 'bg-navy-600 border-navy-600 text-white'
+                : isDark
+                  ? 'bg-navy-900/60 border-navy-700 text-navy-200 hover:bg-navy-700'
+                  : 'bg-navy-50 border-navy-200 text-navy-700 hover:bg-navy-100'
+            }`}
+          >
+            <FileText className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate max-w-[12rem]">{citation.fileName}</span>
+            {citation.article && (
+              <span className="truncate max-w-[10rem] opacity-75">· {citation.article}</span>
+            )}
+            {citation.metadata.category && (
+              <span className={`px-1.5 rounded-full flex-shrink-0 ${
+                expandedIndex === index
+                  ? 'bg-white/20'
+                  : isDark ? 'bg-navy-700 text-navy-100' : 'bg-navy-100 text-navy-600'
+              }`}>
+                {CATEGORY_LABELS[citation.metadata.category]}
+              </span>
+            )}
+            {(citation.snippet || !isEmptyMetadata(citation.metadata)) && (
+              <ChevronDown className={`w-3 h-3 flex-shrink-0 transition-transform ${
+                expandedIndex === index ? 'rotate-180' : ''
+              }`} />
+            )}
+          </button>
+        ))}
+      </div>
+
+      <AnimatePresence>
+        {expanded && (expanded.snippet || !isEmptyMetadata(expanded.metadata)) && (
+          <motion.div
+            key={expandedIndex}
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="overflow-hidden"
+          >
+            {(expanded.metadata.faculty || expanded.validity || expanded.metadata.tags) && (
+              <div className={`mt-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs ${
+                isDark ? 'text-navy-300' : 'text-navy-600'
+              }`}>
+                {expanded.metadata.faculty && <span>{expanded.metadata.faculty}</span>}
+                {expanded.validity && <span>Geçerlilik: {expanded.validity}</span>}
+                {expanded.metadata.tags?.map((tag) => (
+                  <span key={tag} className={`px-1.5 rounded-full ${isDark ? 'bg-navy-800' : 'bg-navy-100'}`}>
+                    #{tag}
+                  </span>
+                ))}
+              </div>
+            )}
+            {expanded.snippet && (
+              <blockquote className={`mt-2 px-3 py-2 rounded-lg border-l-2 text-xs leading-relaxed whitespace-pre-wrap ${
+                isDark
+                  ? 'bg-navy-900/60 border-navy-500 text-navy-200'
+                  : 'bg-navy-50 border-navy-400 text-navy-700'
+              }`}>
+                {truncateText(expanded.snippet, 600)}
+              </blockquote>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default MessageSources;
@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react'
+import { Navigate, useLocation } from 'react-router-dom'
+import { useAuthStore } from '../stores/useAuthStore'
+
+interface RequireAuthProps {
+  children: ReactNode
+}
+
+// Guards admin routes. Waits for the persisted session to be restored, then
+// sends anonymous visitors to the login page with a returnTo parameter. Every
+// admin route is open to viewers; pages hide editor-only actions themselves
+// with hasRole.
+export default function RequireAuth({ children }: RequireAuthProps) {
+  const { user, isInitialized } = useAuthStore()
+  const location = useLocation()
+
+  if (!isInitialized) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (!user?.isAuthenticated) {
+    const returnTo = encodeURIComponent(location.pathname + location.search)
+    return <Navigate to={`/admin?returnTo=${returnTo}`} replace />
+  }
+
+  return <>{children}</>
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Upload, 
@@ -21,31 +21,85 @@ import {
   Info,
   Download,
   Moon,
-  Sun
+  Sun,
+  MessageSquare,
+  FlaskConical,
+  ArrowUpDown,
+  ArrowUp,
+  ArrowDown,
+  FileUp,
+  Copy
 } from 'lucide-react'
-import { useAuthStore } from '../stores/useAuthStore'
+import { useAuthStore, hasRole } from '../stores/useAuthStore'
 import { useDocumentStore } from '../stores/useDocumentStore'
-import { useNavigate } from 'react-router-dom'
+import { useDocumentVersionStore } from '../stores/useDocumentVersionStore'
+import { useDocumentMetadataStore } from '../stores/useDocumentMetadataStore'
+import { useFreshnessStore } from '../stores/useFreshnessStore'
+import { useDocumentSimilarityStore, getUnscannedDocuments } from '../stores/useDocumentSimilarityStore'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { documentService, systemService } from '../services/api'
-import { formatFileSize, formatDate } from '../utils'
+import { formatFileSize, formatDate, getSourceInfo, downloadTextFile, isSupportedFileType } from '../utils'
+import ConversationsTab from '../components/Admin/ConversationsTab'
+import CachePanel from '../components/Admin/CachePanel'
+import UploadQueue from '../components/Admin/UploadQueue'
+import UploadSessionDrawer from '../components/Admin/UploadSessionDrawer'
+import ChunkInspector from '../components/Admin/ChunkInspector'
+import RetrievalTestTab from '../components/Admin/RetrievalTestTab'
+import DeleteConfirmModal from '../components/Admin/DeleteConfirmModal'
+import DocumentVersions from '../components/Admin/DocumentVersions'
+import DocumentMetadataEditor from '../components/Admin/DocumentMetadataEditor'
+import FreshnessPanel from '../components/Admin/FreshnessPanel'
+import NearDuplicatesPanel from '../components/Admin/NearDuplicatesPanel'
+import SessionExpiryModal from '../components/Admin/SessionExpiryModal'
 import toast from 'react-hot-toast'
-import type { DocumentContent, DocumentDetails } from '../types'
-
-interface SystemStats {
-  total_documents: number
-  total_chunks: number
-  total_conversations: number
-  system_health: 'healthy' | 'warning' | 'error'
-  last_updated: string
+import { isAxiosError } from 'axios'
+import {
+  DOCUMENTS_PAGE_SIZE,
+  parseDocumentFilters,
+  writeDocumentFilters,
+  hasActiveFilters,
+  getDocumentTypes,
+  filterDocuments,
+  sortDocuments
+} from '../utils/documentFilters'
+import type { DocumentFilters, DocumentSortKey } from '../utils/documentFilters'
+import { CATEGORY_LABELS, getFacultyOptions, getTagOptions } from '../utils/documentMetadata'
+import { assessFreshness } from '../utils/documentFreshness'
+import { findNearDuplicates } from '../utils/documentSimilarity'
+import type { BulkDeleteResult, ChatSource, DocumentContent, DocumentDetails, DocumentInfo, SystemStats, UploadSession } from '../types'
+
+// Pause between files in a bulk download; browsers drop clicks that come too fast
+const DOWNLOAD_INTERVAL = 500
+
+interface SortableHeaderProps {
+  label: string
+  sortKey: DocumentSortKey
+  filters: DocumentFilters
+  onSort: (key: DocumentSortKey) => void
+  className?: string
+}
+
+function SortableHeader({ label, sortKey, filters, onSort, className = '' }: SortableHeaderProps) {
+  const isActive = filters.sort === sortKey
+  const Icon = !isActive ? ArrowUpDown : filters.dir === 'asc' ? ArrowUp : ArrowDown
+  return (
+    <th className={`py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider ${className}`}>
+      <button
+        onClick={() => onSort(sortKey)}
+        className={`inline-flex items-center space-x-1 uppercase hover:text-gray-700 dark:hover:text-gray-200 ${isActive ? 'text-blue-600 dark:text-blue-400' : ''}`}
+      >
+        <span>{label}</span>
+        <Icon className="h-3 w-3" />
+      </button>
+    </th>
+  )
 }
 
 export default function AdminDashboard() {
-  const [activeTab, setActiveTab] = useState<'overview' | 'documents'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'documents' | 'conversations' | 'test'>('overview')
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null)
-  const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null)
-  const [isUploading, setIsUploading] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
-  const [searchTerm, setSearchTerm] = useState('')
+  const [showFilters, setShowFilters] = useState(false)
   const [isDarkMode, setIsDarkMode] = useState(() => {
     return localStorage.getItem('darkMode') === 'true'
   })
@@ -53,35 +107,57 @@ export default function AdminDashboard() {
   const [documentContent, setDocumentContent] = useState<DocumentContent | null>(null)
   const [documentDetails, setDocumentDetails] = useState<DocumentDetails | null>(null)
   const [isLoadingDocument, setIsLoadingDocument] = useState(false)
+  const [inspectorQuery, setInspectorQuery] = useState('')
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [deleteRequest, setDeleteRequest] = useState<{ documents: DocumentInfo[]; clearAll: boolean } | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [replaceTarget, setReplaceTarget] = useState<DocumentInfo | null>(null)
+  const replaceInputRef = useRef<HTMLInputElement>(null)
+  const { replacingIds, replaceDocument } = useDocumentVersionStore()
+  const metadataByFile = useDocumentMetadataStore((state) => state.byFileName)
+  const { maxAgeDays, expiringWithinDays, citationCounts, loadCitations } = useFreshnessStore()
+  const { signatures, dismissedPairs } = useDocumentSimilarityStore()
+  const [sessionStatusFilter, setSessionStatusFilter] = useState('all')
+  const [sessionCreatorFilter, setSessionCreatorFilter] = useState('all')
+  const [selectedSession, setSelectedSession] = useState<UploadSession | null>(null)
   
   const { user, logout } = useAuthStore()
   const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+  // Viewers can browse everything but not change documents or the cache
+  const canEdit = hasRole(user, 'editor')
   
   // Document store
   const {
     documents,
     uploadSessions,
-    currentUploadProgress,
+    trackedSessionIds,
+    sessionProgress,
+    uploadFiles,
     stats: documentStats,
     isLoading: documentsLoading,
     error: documentsError,
     fetchDocuments,
     fetchUploadSessions,
     fetchDocumentStats,
-    startUploadTracking,
     stopUploadTracking,
-    deleteDocument,
+    resumeUploadTracking,
+    deleteDocuments,
     clearAllDocuments,
     clearError
   } = useDocumentStore()
 
+  const queuedSessionIds = new Set(uploadFiles.map((entry) => entry.session_id))
+
+  // The route is guarded by RequireAuth; reload after a re-login too
   useEffect(() => {
-    if (!user?.isAuthenticated) {
-      navigate('/admin')
-      return
-    }
     loadData()
-  }, [user, navigate])
+  }, [user?.expiresAt])
+
+  // Pick up sessions that were still processing when the page was closed
+  useEffect(() => {
+    resumeUploadTracking()
+  }, [resumeUploadTracking])
 
   useEffect(() => {
     // Load document data when component mounts
@@ -92,6 +168,10 @@ export default function AdminDashboard() {
     }
   }, [user?.isAuthenticated])
 
+  useEffect(() => {
+    if (user?.isAuthenticated) loadCitations()
+  }, [user?.isAuthenticated, loadCitations])
+
   // Clear errors when they exist
   useEffect(() => {
     if (documentsError) {
@@ -110,8 +190,9 @@ export default function AdminDashboard() {
     localStorage.setItem('darkMode', isDarkMode.toString())
   }, [isDarkMode])
 
+  // Only the first load blocks the page; later calls, including the one after
+  // a re-login, refresh the stats behind the current view
   const loadData = async () => {
-    setIsLoading(true)
     try {
       const statsResponse = await systemService.getStats().catch(() => null)
       setSystemStats(statsResponse)
@@ -148,93 +229,104 @@ export default function AdminDashboard() {
     }
   }
 
-  const handleFileUpload = async () => {
-    if (!selectedFiles || selectedFiles.length === 0) {
-      toast.error('Lütfen dosya seçin')
-      return
-    }
+  const handleDeleteDocument = (doc: DocumentInfo) => {
+    setDeleteRequest({ documents: [doc], clearAll: false })
+  }
 
-    setIsUploading(true)
-    const filesArray = Array.from(selectedFiles)
+  const handleClearAllDocuments = () => {
+    setDeleteRequest({ documents, clearAll: true })
+  }
 
-    try {
-      const response = await documentService.uploadDocuments(filesArray)
-
-      // If we get a session_id, start tracking progress
-      if (response.session_id) {
-        startUploadTracking(response.session_id, async () => {
-          // This callback runs when upload tracking completes
-          await loadData(); // Refresh system stats too
-          toast.success('Upload tamamlandı! Tüm veriler güncellendi.')
-        })
-        toast.success('Upload başlatıldı, ilerleme takip ediliyor...')
-      } else {
-        toast.success(`${response.files_processed} dosya başarıyla yüklendi`)
-        
-        // Refresh ALL data including system stats
-        await refreshAllData()
-      }
+  const runDeletion = async (onProgress: (result: BulkDeleteResult) => void): Promise<BulkDeleteResult[]> => {
+    if (!deleteRequest) return []
+    const targets = deleteRequest.documents
 
-      setSelectedFiles(null)
-      // Clear file input
-      const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement
-      if (fileInput) fileInput.value = ''
-      
-    } catch (error) {
-      console.error('Upload failed:', error)
-      toast.error('Dosya yükleme başarısız')
-    } finally {
-      setIsUploading(false)
+    const results = deleteRequest.clearAll
+      ? await clearAllDocuments(onProgress)
+      : await deleteDocuments(targets.map((doc) => doc.id), onProgress)
+
+    const deletedIds = new Set(results.filter((r) => r.success).map((r) => r.id))
+    setSelectedIds((ids) => ids.filter((id) => !deletedIds.has(id)))
+    if (selectedDocument && deletedIds.has(selectedDocument)) {
+      setSelectedDocument(null)
+      setDocumentContent(null)
+      setDocumentDetails(null)
     }
+
+    // Refresh ALL stats after deletion
+    await refreshAllData()
+    return results
+  }
+
+  const handleReplaceClick = (doc: DocumentInfo) => {
+    setReplaceTarget(doc)
+    replaceInputRef.current?.click()
   }
 
-  const handleDeleteDocument = async (docId: string) => {
-    if (!confirm('Bu dokümanı silmek istediğinizden emin misiniz?')) return
+  const handleReplaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    const target = replaceTarget
+    setReplaceTarget(null)
+    if (!file || !target) return
 
+    if (!isSupportedFileType(file.name)) {
+      toast.error(`Desteklenmeyen dosya türü: ${file.name}`)
+      return
+    }
+
+    const toastId = toast.loading(`${target.file_name} yeni sürümle değiştiriliyor...`)
     try {
-      await deleteDocument(docId)
-      toast.success('Doküman silindi')
-      
-      // Refresh ALL stats after deletion
-      await refreshAllData()
-      
-      if (selectedDocument === docId) {
-        setSelectedDocument(null)
-        setDocumentContent(null)
-        setDocumentDetails(null)
-      }
+      const uploaded = await replaceDocument(target, file)
+      toast.success('Doküman yeni sürümle değiştirildi', { id: toastId })
+      setSelectedIds((ids) => ids.filter((id) => id !== target.id))
+      if (selectedDocument === target.id) handleViewDocument(uploaded.id)
+      loadData()
     } catch (error) {
-      toast.error('Doküman silinirken hata oluştu')
+      console.error('Error replacing document:', error)
+      const message = error instanceof Error && !isAxiosError(error) ? error.message : 'Doküman değiştirilemedi'
+      // Long enough to read when the new copy was left on the server
+      toast.error(message, { id: toastId, duration: 10000 })
     }
   }
 
-  const handleClearAllDocuments = async () => {
-    if (!confirm('TÜM dokümanları silmek istediğinizden emin misiniz? Bu işlem geri alınamaz!')) return
+  const toggleSelected = (docId: string) => {
+    setSelectedIds((ids) => (ids.includes(docId) ? ids.filter((id) => id !== docId) : [...ids, docId]))
+  }
 
-    try {
-      await clearAllDocuments()
-      toast.success('Tüm dokümanlar silindi')
-      
-      // Refresh ALL stats after clearing
-      await refreshAllData()
-      
-      setSelectedDocument(null)
-      setDocumentContent(null)
-      setDocumentDetails(null)
-    } catch (error) {
-      toast.error('Dokümanlar silinirken hata oluştu')
+  // Downloads the extracted text of each selected document as a .txt file
+  const handleDownloadSelected = async () => {
+    setIsDownloading(true)
+    let failed = 0
+    for (const [index, doc] of selectedDocuments.entries()) {
+      try {
+        const content = await documentService.getDocumentContent(doc.id)
+        if (index > 0) await new Promise((resolve) => setTimeout(resolve, DOWNLOAD_INTERVAL))
+        downloadTextFile(`${doc.file_name.replace(/\.[^.]+$/, '')}.txt`, content.full_content)
+      } catch (error) {
+        console.error('Error downloading document content:', error)
+        failed++
+      }
+    }
+    setIsDownloading(false)
+
+    if (failed > 0) {
+      toast.error(`${failed} dokümanın içeriği indirilemedi`)
+    } else {
+      toast.success(`${selectedDocuments.length} doküman indirildi`)
     }
   }
 
-  const handleViewDocument = async (documentId: string) => {
+  const handleViewDocument = async (documentId: string, chunkQuery = '') => {
     setSelectedDocument(documentId);
+    setInspectorQuery(chunkQuery);
     setIsLoadingDocument(true);
     
     try {
       // Get both document details and full content
       const [details, content] = await Promise.all([
         documentService.getDocumentDetails(documentId),
-        documentService.getDocumentContent(documentId, false) // Get full content, not chunks
+        documentService.getDocumentContent(documentId, true) // Full content plus raw chunks for the inspector
       ]);
       
       setDocumentDetails(details);
@@ -265,10 +357,98 @@ export default function AdminDashboard() {
     }
   }
 
-  // Filter documents based on search term
-  const filteredDocuments = documents.filter(doc =>
-    doc.file_name.toLowerCase().includes(searchTerm.toLowerCase())
+  const sessionCreators = Array.from(new Set(uploadSessions.map((session) => session.created_by).filter(Boolean)))
+  const filteredSessions = uploadSessions.filter((session) =>
+    (sessionStatusFilter === 'all' || session.status === sessionStatusFilter) &&
+    (sessionCreatorFilter === 'all' || session.created_by === sessionCreatorFilter)
+  )
+
+  // Jump from a test answer's source to its chunks in the document viewer
+  const handleOpenSource = (source: ChatSource) => {
+    const { fileName, article, snippet } = getSourceInfo(source)
+    const doc = documents.find((d) => d.file_name === fileName)
+    if (!doc) {
+      toast.error('Kaynak doküman bulunamadı')
+      return
+    }
+    setActiveTab('documents')
+    handleViewDocument(doc.id, article ?? snippet?.slice(0, 40) ?? '')
+  }
+
+  // Filters, sort and page live in the URL so a view can be shared
+  const documentFilters = parseDocumentFilters(searchParams)
+  const filtersActive = hasActiveFilters(documentFilters)
+  const documentStatuses = Array.from(new Set(documents.map((doc) => doc.status))).sort()
+  const documentTypes = getDocumentTypes(documents)
+  const documentFaculties = getFacultyOptions(Object.values(metadataByFile))
+  const documentTags = getTagOptions(Object.values(metadataByFile))
+
+  const updateDocumentFilters = (patch: Partial<DocumentFilters>) => {
+    // Any change other than paging starts again from the first page
+    const next = { ...documentFilters, page: 1, ...patch }
+    setSearchParams((params) => writeDocumentFilters(params, next), { replace: true })
+  }
+
+  const clearDocumentFilters = () => {
+    updateDocumentFilters({ query: '', status: '', type: '', minSizeMb: null, maxSizeMb: null, from: '', to: '', category: '', faculty: '', tag: '' })
+  }
+
+  const toggleSort = (key: DocumentSortKey) => {
+    updateDocumentFilters({
+      sort: key,
+      dir: documentFilters.sort === key && documentFilters.dir === 'asc' ? 'desc' : 'asc'
+    })
+  }
+
+  const filteredDocuments = useMemo(() => {
+    const filters = parseDocumentFilters(searchParams)
+    return sortDocuments(filterDocuments(documents, filters, metadataByFile), filters.sort, filters.dir)
+  }, [documents, searchParams, metadataByFile])
+  const pageCount = Math.max(1, Math.ceil(filteredDocuments.length / DOCUMENTS_PAGE_SIZE))
+  const currentPage = Math.min(documentFilters.page, pageCount)
+  const pagedDocuments = filteredDocuments.slice((currentPage - 1) * DOCUMENTS_PAGE_SIZE, currentPage * DOCUMENTS_PAGE_SIZE)
+
+  const freshnessEntries = useMemo(
+    () => assessFreshness(documents, { maxAgeDays, expiringWithinDays, metadataByFile, citationCounts }),
+    [documents, maxAgeDays, expiringWithinDays, metadataByFile, citationCounts]
   )
+  const hasExpiredDocuments = freshnessEntries.some((entry) => entry.issues.includes('expired'))
+
+  const handleOpenFreshnessDocument = (doc: DocumentInfo) => {
+    setActiveTab('documents')
+    handleViewDocument(doc.id)
+  }
+
+  // Signatures only change when a scan finishes, so the pairwise comparison
+  // runs once per scan
+  const nearDuplicates = useMemo(() => {
+    const dismissed = new Set(dismissedPairs)
+    return findNearDuplicates(documents, signatures).filter((pair) => !dismissed.has(pair.key))
+  }, [documents, signatures, dismissedPairs])
+  const similarDocuments = useMemo(() => {
+    const similar = new Map<string, string[]>()
+    nearDuplicates.forEach(({ older, newer, similarity }) => {
+      const percent = Math.round(similarity * 100)
+      similar.set(older.id, [...(similar.get(older.id) ?? []), `${newer.file_name} (%${percent})`])
+      similar.set(newer.id, [...(similar.get(newer.id) ?? []), `${older.file_name} (%${percent})`])
+    })
+    return similar
+  }, [nearDuplicates])
+
+  // Selection is looked up once per listed row, so keep it in a Set
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds])
+  const selectedDocuments = useMemo(() => documents.filter((doc) => selectedSet.has(doc.id)), [documents, selectedSet])
+  const isAllFilteredSelected = filteredDocuments.length > 0 && filteredDocuments.every((doc) => selectedSet.has(doc.id))
+
+  const toggleSelectAllFiltered = () => {
+    const filteredIds = new Set(filteredDocuments.map((doc) => doc.id))
+    setSelectedIds((ids) =>
+      isAllFilteredSelected
+        ? ids.filter((id) => !filteredIds.has(id))
+        : Array.from(new Set([...ids, ...filteredIds]))
+    )
+  }
+
 
   if (isLoading) {
     return (
@@ -311,6 +491,11 @@ export default function AdminDashboard() {
               <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
                 <User className="h-4 w-4" />
                 <span>{user?.email}</span>
+                {!canEdit && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                    Salt okunur
+                  </span>
+                )}
               </div>
               <button
                 onClick={handleLogout}
@@ -325,63 +510,76 @@ export default function AdminDashboard() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 py-6">
-        {/* Upload Progress Notification */}
+        {/* Upload Progress Notifications; queue uploads show their progress in the queue */}
         <AnimatePresence>
-          {currentUploadProgress && (
-            <motion.div
-              initial={{ opacity: 0, y: -20 }}
-              animate={{ opacity: 1, y: 0 }}
-              exit={{ opacity: 0, y: -20 }}
-              className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-4 mb-6 shadow-sm"
-            >
-              <div className="flex items-center justify-between mb-3">
-                <div className="flex items-center space-x-2">
-                  <Activity className="h-5 w-5 text-blue-600 dark:text-blue-400" />
-                  <span className="font-medium text-blue-900 dark:text-blue-100">Upload İşleniyor</span>
-                </div>
-                <button
-                  onClick={stopUploadTracking}
-                  className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-900/20"
+          {trackedSessionIds
+            .filter((sessionId) => !queuedSessionIds.has(sessionId))
+            .map((sessionId) => {
+              const progress = sessionProgress[sessionId]
+              return (
+                <motion.div
+                  key={sessionId}
+                  initial={{ opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-4 mb-6 shadow-sm"
                 >
-                  <X className="h-4 w-4" />
-                </button>
-              </div>
-              
-              <div className="space-y-3">
-                <div className="flex justify-between text-sm text-blue-700 dark:text-blue-300">
-                  <span>
-                    {currentUploadProgress.processed_files} / {currentUploadProgress.total_files} dosya işlendi
-                  </span>
-                  <span className="font-medium">{currentUploadProgress.progress_percentage}%</span>
-                </div>
-                
-                <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-2.5">
-                  <div 
-                    className="bg-blue-600 dark:bg-blue-400 h-2.5 rounded-full transition-all duration-300"
-                    style={{ width: `${currentUploadProgress.progress_percentage}%` }}
-                  />
-                </div>
-                
-                {currentUploadProgress.current_file && (
-                  <p className="text-sm text-blue-600 dark:text-blue-400">
-                    <span className="font-medium">Şu an işleniyor:</span> {currentUploadProgress.current_file}
-                  </p>
-                )}
-                
-                <p className="text-xs text-blue-500 dark:text-blue-400 capitalize">
-                  <span className="font-medium">Durum:</span> {currentUploadProgress.status}
-                </p>
-              </div>
-            </motion.div>
-          )}
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-2">
+                      <Activity className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+                      <span className="font-medium text-blue-900 dark:text-blue-100">Upload İşleniyor</span>
+                    </div>
+                    <button
+                      onClick={() => stopUploadTracking(sessionId)}
+                      className="text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-200 p-1 rounded hover:bg-blue-100 dark:hover:bg-blue-900/20"
+                      title="Takibi durdur"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  {progress ? (
+                    <div className="space-y-3">
+                      <div className="flex justify-between text-sm text-blue-700 dark:text-blue-300">
+                        <span>
+                          {progress.processed_files} / {progress.total_files} dosya işlendi
+                        </span>
+                        <span className="font-medium">{progress.progress_percentage}%</span>
+                      </div>
+
+                      <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-2.5">
+                        <div
+                          className="bg-blue-600 dark:bg-blue-400 h-2.5 rounded-full transition-all duration-300"
+                          style={{ width: `${progress.progress_percentage}%` }}
+                        />
+                      </div>
+
+                      {progress.current_file && (
+                        <p className="text-sm text-blue-600 dark:text-blue-400">
+                          <span className="font-medium">Şu an işleniyor:</span> {progress.current_file}
+                        </p>
+                      )}
+
+                      <p className="text-xs text-blue-500 dark:text-blue-400 capitalize">
+                        <span className="font-medium">Durum:</span> {progress.status}
+                      </p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-blue-600 dark:text-blue-400">Durum alınıyor...</p>
+                  )}
+                </motion.div>
+              )
+            })}
         </AnimatePresence>
 
         {/* Navigation Tabs */}
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 mb-6 transition-colors">
           <div className="flex">
             {[
-              { id: 'overview', label: 'Genel Bakış', icon: BarChart3 },
-              { id: 'documents', label: 'Dokümanlar', icon: FileText }
+              { id: 'overview', label: 'Genel Bakış', icon: BarChart3, badge: freshnessEntries.length },
+              { id: 'documents', label: 'Dokümanlar', icon: FileText },
+              { id: 'conversations', label: 'Konuşmalar', icon: MessageSquare },
+              { id: 'test', label: 'Test', icon: FlaskConical }
             ].map((tab) => (
               <button
                 key={tab.id}
@@ -394,6 +592,14 @@ export default function AdminDashboard() {
               >
                 <tab.icon className="h-4 w-4" />
                 <span>{tab.label}</span>
+                {!!tab.badge && (
+                  <span
+                    className={`px-1.5 min-w-[1.25rem] rounded-full text-xs font-semibold text-white ${hasExpiredDocuments ? 'bg-red-500' : 'bg-orange-500'}`}
+                    title="Güncelliği kontrol edilmesi gereken dokümanlar"
+                  >
+                    {tab.badge}
+                  </span>
+                )}
               </button>
             ))}
           </div>
@@ -482,11 +688,40 @@ export default function AdminDashboard() {
                 </div>
               </div>
 
+              {/* Cache Status */}
+              <CachePanel readOnly={!canEdit} />
+
+              {/* Content Freshness */}
+              <FreshnessPanel entries={freshnessEntries} onOpenDocument={handleOpenFreshnessDocument} />
+
               {/* Recent Upload Sessions */}
               {uploadSessions.length > 0 && (
                 <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
-                  <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+                  <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex flex-col sm:flex-row items-start sm:items-center justify-between space-y-4 sm:space-y-0">
                     <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Son Upload Sessions</h3>
+                    <div className="flex items-center space-x-3">
+                      <select
+                        value={sessionStatusFilter}
+                        onChange={(e) => setSessionStatusFilter(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      >
+                        <option value="all">Tüm durumlar</option>
+                        <option value="pending">Bekliyor</option>
+                        <option value="processing">İşleniyor</option>
+                        <option value="completed">Tamamlandı</option>
+                        <option value="error">Hata</option>
+                      </select>
+                      <select
+                        value={sessionCreatorFilter}
+                        onChange={(e) => setSessionCreatorFilter(e.target.value)}
+                        className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                      >
+                        <option value="all">Tüm yükleyenler</option>
+                        {sessionCreators.map((creator) => (
+                          <option key={creator} value={creator}>{creator}</option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
                   <div className="overflow-x-auto">
                     <table className="w-full">
@@ -496,12 +731,17 @@ export default function AdminDashboard() {
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Dosya Sayısı</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">İşlenen</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Durum</th>
+                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Yükleyen</th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Tarih</th>
                         </tr>
                       </thead>
                       <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                        {uploadSessions.slice(0, 5).map((session) => (
-                          <tr key={session.session_id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50">
+                        {filteredSessions.slice(0, 5).map((session) => (
+                          <tr
+                            key={session.session_id}
+                            onClick={() => setSelectedSession(session)}
+                            className="hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer"
+                          >
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-600 dark:text-gray-400">
                               {session.session_id.substring(0, 8)}...
                             </td>
@@ -513,9 +753,17 @@ export default function AdminDashboard() {
                                 <span className="capitalize">{session.status}</span>
                               </div>
                             </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">{session.created_by}</td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">{formatDate(session.started_at)}</td>
                           </tr>
                         ))}
+                        {filteredSessions.length === 0 && (
+                          <tr>
+                            <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                              Filtreye uyan upload session bulunamadı
+                            </td>
+                          </tr>
+                        )}
                       </tbody>
                     </table>
                   </div>
@@ -533,49 +781,20 @@ export default function AdminDashboard() {
               className="space-y-6"
             >
               {/* Upload Section */}
-              <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors">
-                <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-4">Doküman Yükle</h3>
-                <div className="flex flex-col sm:flex-row items-start sm:items-center space-y-4 sm:space-y-0 sm:space-x-4">
-                  <input
-                    type="file"
-                    multiple
-                    accept=".pdf,.doc,.docx,.txt"
-                    onChange={(e) => setSelectedFiles(e.target.files)}
-                    className="block w-full text-sm text-gray-500 dark:text-gray-400 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:text-sm file:font-medium file:bg-blue-50 file:text-blue-700 dark:file:bg-blue-900/20 dark:file:text-blue-300 hover:file:bg-blue-100 dark:hover:file:bg-blue-900/30 transition-colors"
-                    disabled={isUploading}
-                  />
-                  <button
-                    onClick={handleFileUpload}
-                    disabled={!selectedFiles || selectedFiles.length === 0 || isUploading}
-                    className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 whitespace-nowrap transition-colors"
-                  >
-                    {isUploading ? (
-                      <>
-                        <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                        <span>Yükleniyor...</span>
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="h-4 w-4" />
-                        <span>Yükle</span>
-                      </>
-                    )}
-                  </button>
-                </div>
-                
-                {selectedFiles && selectedFiles.length > 0 && (
-                  <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
-                    <p className="text-sm text-blue-700 dark:text-blue-300">
-                      {selectedFiles.length} dosya seçildi
-                    </p>
-                  </div>
-                )}
-              </div>
+              {canEdit && <UploadQueue />}
+
+              <NearDuplicatesPanel
+                pairs={nearDuplicates}
+                unscannedCount={getUnscannedDocuments(documents, signatures).length}
+                readOnly={!canEdit}
+                onDelete={(doc) => setDeleteRequest({ documents: [doc], clearAll: false })}
+                onOpen={(doc) => handleViewDocument(doc.id)}
+              />
 
               <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                 {/* Documents List */}
                 <div className="lg:col-span-2">
-                  <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors h-[calc(100vh-200px)]">
+                  <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 transition-colors h-[calc(100vh-200px)] flex flex-col">
                     <div className="p-6 border-b border-gray-200 dark:border-gray-700">
                       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between space-y-4 sm:space-y-0">
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
@@ -589,11 +808,21 @@ export default function AdminDashboard() {
                             <input
                               type="text"
                               placeholder="Doküman ara..."
-                              value={searchTerm}
-                              onChange={(e) => setSearchTerm(e.target.value)}
+                              value={documentFilters.query}
+                              onChange={(e) => updateDocumentFilters({ query: e.target.value })}
                               className="pl-10 pr-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                             />
                           </div>
+
+                          <button
+                            onClick={() => setShowFilters(!showFilters)}
+                            className={`p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                              showFilters || filtersActive ? 'text-blue-600 dark:text-blue-400' : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
+                            }`}
+                            title="Filtreler"
+                          >
+                            <Filter className="h-4 w-4" />
+                          </button>
                           
                           <button
                             onClick={refreshAllData}
@@ -604,48 +833,220 @@ export default function AdminDashboard() {
                             <RefreshCw className={`h-4 w-4 ${documentsLoading ? 'animate-spin' : ''}`} />
                           </button>
                           
+                          {canEdit && (
+                            <button
+                              onClick={handleClearAllDocuments}
+                              className="px-3 py-2 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg text-sm font-medium transition-colors"
+                            >
+                              Tümünü Sil
+                            </button>
+                          )}
+                        </div>
+                      </div>
+
+                      {showFilters && (
+                        <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                          <select
+                            value={documentFilters.status}
+                            onChange={(e) => updateDocumentFilters({ status: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          >
+                            <option value="">Tüm durumlar</option>
+                            {documentStatuses.map((status) => (
+                              <option key={status} value={status}>{status}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={documentFilters.type}
+                            onChange={(e) => updateDocumentFilters({ type: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          >
+                            <option value="">Tüm dosya türleri</option>
+                            {documentTypes.map((type) => (
+                              <option key={type} value={type}>{type.toUpperCase()}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={documentFilters.category}
+                            onChange={(e) => updateDocumentFilters({ category: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          >
+                            <option value="">Tüm kategoriler</option>
+                            {Object.entries(CATEGORY_LABELS).map(([category, label]) => (
+                              <option key={category} value={category}>{label}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={documentFilters.faculty}
+                            onChange={(e) => updateDocumentFilters({ faculty: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          >
+                            <option value="">Tüm fakülteler</option>
+                            {documentFaculties.map((faculty) => (
+                              <option key={faculty} value={faculty}>{faculty}</option>
+                            ))}
+                          </select>
+                          <select
+                            value={documentFilters.tag}
+                            onChange={(e) => updateDocumentFilters({ tag: e.target.value })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          >
+                            <option value="">Tüm etiketler</option>
+                            {documentTags.map((tag) => (
+                              <option key={tag} value={tag}>{tag}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.1"
+                            placeholder="Min. boyut (MB)"
+                            value={documentFilters.minSizeMb ?? ''}
+                            onChange={(e) => updateDocumentFilters({ minSizeMb: e.target.value === '' ? null : Number(e.target.value) })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          />
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.1"
+                            placeholder="Maks. boyut (MB)"
+                            value={documentFilters.maxSizeMb ?? ''}
+                            onChange={(e) => updateDocumentFilters({ maxSizeMb: e.target.value === '' ? null : Number(e.target.value) })}
+                            className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                          />
+                          <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                            <span className="whitespace-nowrap">Başlangıç</span>
+                            <input
+                              type="date"
+                              value={documentFilters.from}
+                              onChange={(e) => updateDocumentFilters({ from: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                            />
+                          </label>
+                          <label className="flex items-center space-x-2 text-gray-600 dark:text-gray-400">
+                            <span className="whitespace-nowrap">Bitiş</span>
+                            <input
+                              type="date"
+                              value={documentFilters.to}
+                              onChange={(e) => updateDocumentFilters({ to: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                            />
+                          </label>
+                          {filtersActive && (
+                            <button
+                              onClick={clearDocumentFilters}
+                              className="px-3 py-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                            >
+                              Filtreleri temizle
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    {selectedDocuments.length > 0 && (
+                      <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700 bg-blue-50 dark:bg-blue-900/20 flex items-center justify-between text-sm">
+                        <span className="text-blue-700 dark:text-blue-300 font-medium">{selectedDocuments.length} doküman seçili</span>
+                        <div className="flex items-center space-x-2">
                           <button
-                            onClick={handleClearAllDocuments}
-                            className="px-3 py-2 text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg text-sm font-medium transition-colors"
+                            onClick={handleDownloadSelected}
+                            disabled={isDownloading}
+                            className="flex items-center space-x-1 px-3 py-1.5 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-lg transition-colors disabled:opacity-50"
                           >
-                            Tümünü Sil
+                            <Download className="h-4 w-4" />
+                            <span>{isDownloading ? 'İndiriliyor...' : 'İçeriği indir'}</span>
+                          </button>
+                          {canEdit && (
+                            <button
+                              onClick={() => setDeleteRequest({ documents: selectedDocuments, clearAll: false })}
+                              className="flex items-center space-x-1 px-3 py-1.5 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span>Seçilenleri sil</span>
+                            </button>
+                          )}
+                          <button
+                            onClick={() => setSelectedIds([])}
+                            className="px-3 py-1.5 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                          >
+                            Seçimi temizle
                           </button>
                         </div>
                       </div>
-                    </div>
+                    )}
 
-                    <div className="overflow-y-auto" style={{ height: 'calc(100% - 100px)' }}>
+                    <div className="flex-1 min-h-0 overflow-y-auto">
+                      <input
+                        ref={replaceInputRef}
+                        type="file"
+                        accept=".pdf,.doc,.docx,.txt,.md"
+                        onChange={handleReplaceFile}
+                        className="hidden"
+                      />
                       <table className="w-full">
                         <thead className="bg-gray-50 dark:bg-gray-700 sticky top-0">
                           <tr>
-                            <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-2/5">Dosya Adı</th>
-                            <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-1/6">Boyut</th>
-                            <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-1/6">Chunks</th>
-                            <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-1/6">Durum</th>
-                            <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider w-1/6">İşlemler</th>
+                            <th className="pl-4 py-3 w-8">
+                              <input
+                                type="checkbox"
+                                checked={isAllFilteredSelected}
+                                onChange={toggleSelectAllFiltered}
+                                disabled={filteredDocuments.length === 0}
+                                className="rounded border-gray-300 dark:border-gray-600"
+                                title="Listelenenlerin tümünü seç"
+                              />
+                            </th>
+                            <SortableHeader label="Dosya Adı" sortKey="name" filters={documentFilters} onSort={toggleSort} className="px-4 w-2/5" />
+                            <SortableHeader label="Boyut" sortKey="size" filters={documentFilters} onSort={toggleSort} className="px-3" />
+                            <SortableHeader label="Tarih" sortKey="date" filters={documentFilters} onSort={toggleSort} className="px-3" />
+                            <SortableHeader label="Chunks" sortKey="chunks" filters={documentFilters} onSort={toggleSort} className="px-3" />
+                            <SortableHeader label="Durum" sortKey="status" filters={documentFilters} onSort={toggleSort} className="px-3" />
+                            <th className="px-3 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">İşlemler</th>
                           </tr>
                         </thead>
                         <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                          {filteredDocuments.map((doc) => (
+                          {pagedDocuments.map((doc) => (
                             <tr key={doc.id} className={`hover:bg-gray-50 dark:hover:bg-gray-700/50 ${selectedDocument === doc.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}>
+                              <td className="pl-4 py-4 w-8">
+                                <input
+                                  type="checkbox"
+                                  checked={selectedSet.has(doc.id)}
+                                  onChange={() => toggleSelected(doc.id)}
+                                  className="rounded border-gray-300 dark:border-gray-600"
+                                />
+                              </td>
                               <td className="px-4 py-4 text-sm text-gray-900 dark:text-gray-100 font-medium w-2/5">
-                                <div className="truncate max-w-xs" title={doc.file_name}>
-                                  {doc.file_name}
+                                <div className="flex items-center space-x-2">
+                                  <div className="truncate max-w-xs" title={doc.file_name}>
+                                    {doc.file_name}
+                                  </div>
+                                  {similarDocuments.has(doc.id) && (
+                                    <span
+                                      className="flex-shrink-0 inline-flex items-center space-x-1 px-1.5 py-0.5 rounded-full text-xs font-normal bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300"
+                                      title={`Benzer içerik: ${similarDocuments.get(doc.id)?.join(', ')}`}
+                                    >
+                                      <Copy className="h-3 w-3" />
+                                      <span>Benzer</span>
+                                    </span>
+                                  )}
                                 </div>
                               </td>
-                              <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400 w-1/6">
+                              <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                                 {formatFileSize(doc.file_size)}
                               </td>
-                              <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400 w-1/6">
+                              <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                                {formatDate(doc.created_at)}
+                              </td>
+                              <td className="px-3 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                                 <span className="font-medium">{doc.chunks_count || 0}</span>
                               </td>
-                              <td className="px-3 py-4 whitespace-nowrap w-1/6">
+                              <td className="px-3 py-4 whitespace-nowrap">
                                 <div className={`inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium border ${getStatusColor(doc.status)}`}>
                                   {getStatusIcon(doc.status)}
                                   <span className="capitalize">{doc.status}</span>
                                 </div>
                               </td>
-                              <td className="px-3 py-4 whitespace-nowrap w-1/6">
+                              <td className="px-3 py-4 whitespace-nowrap">
                                 <div className="flex items-center space-x-1">
                                   <button
                                     onClick={() => handleViewDocument(doc.id)}
@@ -654,13 +1055,29 @@ export default function AdminDashboard() {
                                   >
                                     <Eye className="h-4 w-4" />
                                   </button>
-                                  <button
-                                    onClick={() => handleDeleteDocument(doc.id)}
-                                    className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 p-2 rounded hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
-                                    title="Sil"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </button>
+                                  {canEdit && (
+                                    <button
+                                      onClick={() => handleReplaceClick(doc)}
+                                      disabled={replacingIds.includes(doc.id)}
+                                      className="text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                                      title="Yeni sürüm yükle"
+                                    >
+                                      {replacingIds.includes(doc.id) ? (
+                                        <div className="w-4 h-4 border-2 border-gray-500 border-t-transparent rounded-full animate-spin" />
+                                      ) : (
+                                        <FileUp className="h-4 w-4" />
+                                      )}
+                                    </button>
+                                  )}
+                                  {canEdit && (
+                                    <button
+                                      onClick={() => handleDeleteDocument(doc)}
+                                      className="text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 p-2 rounded hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                                      title="Sil"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </button>
+                                  )}
                                 </div>
                               </td>
                             </tr>
@@ -672,11 +1089,36 @@ export default function AdminDashboard() {
                         <div className="text-center py-8">
                           <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                           <p className="text-gray-500 dark:text-gray-400">
-                            {searchTerm ? 'Arama kriterinize uygun doküman bulunamadı' : 'Henüz hiç doküman yüklenmemiş'}
+                            {documents.length > 0 ? 'Arama kriterinize uygun doküman bulunamadı' : 'Henüz hiç doküman yüklenmemiş'}
                           </p>
                         </div>
                       )}
                     </div>
+
+                    {pageCount > 1 && (
+                      <div className="px-6 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                        <span>
+                          {(currentPage - 1) * DOCUMENTS_PAGE_SIZE + 1}–{Math.min(currentPage * DOCUMENTS_PAGE_SIZE, filteredDocuments.length)} / {filteredDocuments.length}
+                        </span>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => updateDocumentFilters({ page: currentPage - 1 })}
+                            disabled={currentPage === 1}
+                            className="px-3 py-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            Önceki
+                          </button>
+                          <span>{currentPage} / {pageCount}</span>
+                          <button
+                            onClick={() => updateDocumentFilters({ page: currentPage + 1 })}
+                            disabled={currentPage === pageCount}
+                            className="px-3 py-1.5 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                          >
+                            Sonraki
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -722,6 +1164,16 @@ export default function AdminDashboard() {
                                 </div>
                               </div>
                             </div>
+
+                            {documentDetails.chunks_count !== documentDetails.weaviate_chunks && (
+                              <div className="mt-3 flex items-start space-x-2 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-300">
+                                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                <span>
+                                  Kayıtlı chunk sayısı ({documentDetails.chunks_count}) ile Weaviate'teki chunk sayısı ({documentDetails.weaviate_chunks}) uyuşmuyor.
+                                  Doküman eksik indekslenmiş olabilir; yeniden yüklemeyi deneyin.
+                                </span>
+                              </div>
+                            )}
                           </div>
                           
                           {documentContent && (
@@ -730,12 +1182,12 @@ export default function AdminDashboard() {
                                 Doküman İçeriği ({documentContent.total_chunks} chunk'tan oluşuyor)
                               </h5>
                               
-                              {/* Full Content Viewer */}
-                              <div className="bg-gray-50 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600 p-4 max-h-96 overflow-y-auto">
-                                <div className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">
-                                  {documentContent.full_content || 'İçerik yüklenemedi'}
-                                </div>
-                              </div>
+                              {/* Full Content / Chunk Inspector */}
+                              <ChunkInspector
+                                key={`${documentContent.document_id}:${inspectorQuery}`}
+                                content={documentContent}
+                                initialQuery={inspectorQuery}
+                              />
                               
                               {/* Document Stats */}
                               <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
@@ -750,6 +1202,24 @@ export default function AdminDashboard() {
                               </div>
                             </div>
                           )}
+
+                          <div>
+                            <h5 className="font-medium text-gray-900 dark:text-gray-100 mb-3">Yönetici Notları</h5>
+                            <DocumentMetadataEditor
+                              key={documentDetails.document_id}
+                              details={documentDetails}
+                              readOnly={!canEdit}
+                            />
+                          </div>
+
+                          <div>
+                            <h5 className="font-medium text-gray-900 dark:text-gray-100 mb-3">Sürüm Geçmişi</h5>
+                            <DocumentVersions
+                              key={documentDetails.document_id}
+                              details={documentDetails}
+                              content={documentContent}
+                            />
+                          </div>
                         </div>
                       ) : (
                         <div className="text-center py-8">
@@ -765,8 +1235,36 @@ export default function AdminDashboard() {
               </div>
             </motion.div>
           )}
+
+          {activeTab === 'conversations' && <ConversationsTab key="conversations" />}
+
+          {activeTab === 'test' && <RetrievalTestTab key="test" onOpenSource={handleOpenSource} />}
         </AnimatePresence>
       </div>
+
+      <AnimatePresence>
+        {selectedSession && (
+          <UploadSessionDrawer
+            key={selectedSession.session_id}
+            session={selectedSession}
+            readOnly={!canEdit}
+            onClose={() => setSelectedSession(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {deleteRequest && (
+          <DeleteConfirmModal
+            documents={deleteRequest.documents}
+            title={deleteRequest.clearAll ? 'Tüm dokümanları sil' : deleteRequest.documents.length === 1 ? 'Dokümanı sil' : 'Seçilen dokümanları sil'}
+            onConfirm={runDeletion}
+            onClose={() => setDeleteRequest(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <SessionExpiryModal onLogout={handleLogout} />
     </div>
   )
 } 
\ No newline at end of file
@@ -1,29 +1,49 @@
 import React, { useState, useEffect } from 'react'
 import { motion } from 'framer-motion'
 import { Eye, EyeOff, Lock, Mail, ArrowRight, AlertCircle } from 'lucide-react'
-import { useNavigate } from 'react-router-dom'
+import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuthStore } from '../stores/useAuthStore'
 import toast from 'react-hot-toast'
 
+const DEFAULT_RETURN_TO = '/admin/dashboard'
+
+// Only admin pages of this app are accepted so the login page cannot redirect
+// elsewhere. Browsers read `\` as `/` and drop control characters, so values
+// holding either are refused before parsing.
+const getSafeReturnTo = (value: string | null) => {
+  if (!value || !value.startsWith('/') || [...value].some((ch) => ch === '\\' || ch < ' ' || ch === '\x7f')) {
+    return DEFAULT_RETURN_TO
+  }
+  try {
+    const url = new URL(value, window.location.origin)
+    if (url.origin !== window.location.origin || !url.pathname.startsWith('/admin/')) return DEFAULT_RETURN_TO
+    return url.pathname + url.search + url.hash
+  } catch {
+    return DEFAULT_RETURN_TO
+  }
+}
+
 export default function AdminLogin() {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const returnTo = getSafeReturnTo(searchParams.get('returnTo'))
   
-  const { user, login, isLoading, error, clearError } = useAuthStore()
+  const { user, sessionStatus, login, isLoading, error, clearError } = useAuthStore()
 
   // Clear error when component mounts
   useEffect(() => {
     clearError()
   }, [clearError])
 
-  // Redirect if already authenticated
+  // Redirect if already authenticated with a live session
   useEffect(() => {
-    if (user?.isAuthenticated) {
-      navigate('/admin/dashboard')
+    if (user?.isAuthenticated && sessionStatus !== 'expired') {
+      navigate(returnTo, { replace: true })
     }
-  }, [user, navigate])
+  }, [user, sessionStatus, navigate, returnTo])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -36,7 +56,7 @@ export default function AdminLogin() {
     try {
       await login({ email, password })
       toast.success('Giriş başarılı!')
-      navigate('/admin/dashboard')
+      navigate(returnTo, { replace: true })
     } catch (error) {
       // Error is already set in the store, no need to handle here
       console.error('Login failed:', error)
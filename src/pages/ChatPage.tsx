@@ -1,9 +1,13 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Send, Moon, Sun, BookOpen, Users, Award, MapPin, User, GraduationCap, Phone, Mail, Instagram, Linkedin, Mic } from 'lucide-react'
+import { Send, Square, RotateCcw, ChevronLeft, ChevronRight, Moon, Sun, PanelLeft, BookOpen, Users, Award, MapPin, User, GraduationCap, Phone, Mail, Instagram, Linkedin, Mic } from 'lucide-react'
 import Lottie from 'lottie-react'
-import { useChatStore } from '../stores/useChatStore'
+import { useChatStore, HISTORY_CONVERSATION_ID } from '../stores/useChatStore'
 import VoiceAssistant from '../components/VoiceAssistant'
+import MessageSources from '../components/Chat/MessageSources'
+import MarkdownMessage from '../components/Chat/MarkdownMessage'
+import ConversationSidebar from '../components/Chat/ConversationSidebar'
+import { getConfig } from '../services/config'
 
 const quickQuestions = [
   { icon: BookOpen, text: "Hangi bölümleriniz var?" },
@@ -33,10 +37,12 @@ const StreamingMessage = React.memo(({
         <div className={`px-4 py-3 rounded-2xl ${
           isDark ? 'bg-navy-800 text-navy-100' : 'bg-white text-navy-900 border border-navy-200'
         }`}>
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">
-            {streamingMessage}
-            <span className="inline-block w-2 h-4 bg-current ml-1 rounded-sm animate-pulse" />
-          </p>
+          <MarkdownMessage
+            content={streamingMessage}
+            streaming
+            className="text-sm leading-relaxed"
+          />
+          <span className="inline-block w-2 h-4 bg-current mt-1 rounded-sm animate-pulse" />
         </div>
       </div>
     </div>
@@ -54,18 +60,66 @@ export default function ChatPage() {
   const [animationData, setAnimationData] = useState(null)
   const [shouldLoop, setShouldLoop] = useState(false)
   const [isVoiceAssistantOpen, setIsVoiceAssistantOpen] = useState(false)
+  const { features } = getConfig()
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const lottieRef = useRef<any>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
-  const { messages, sendMessage, isLoading, isStreaming, streamingMessage } = useChatStore()
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  // scrollHeight before older history was prepended
+  const previousScrollHeightRef = useRef<number | null>(null)
+  const {
+    messages,
+    activeConversationId,
+    sendMessage,
+    stopGeneration,
+    regenerateLastAnswer,
+    selectVariant,
+    loadChatHistory,
+    loadOlderHistory,
+    hasMoreHistory,
+    isHistoryLoading,
+    isLoading,
+    isStreaming,
+    streamingMessage
+  } = useChatStore()
+
+  const isHistoryConversation = activeConversationId === HISTORY_CONVERSATION_ID
+
+  // Regenerate and variant controls only apply to the latest answer
+  const lastAssistantId = [...messages].reverse().find((m) => m.role === 'assistant')?.id
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
   }
 
   useEffect(() => {
+    const container = scrollContainerRef.current
+    if (container && previousScrollHeightRef.current !== null) {
+      // Older messages were prepended; keep the viewport where it was
+      container.scrollTop = container.scrollHeight - previousScrollHeightRef.current
+      previousScrollHeightRef.current = null
+      return
+    }
     scrollToBottom()
   }, [messages, streamingMessage])
 
+  // Hydrate from server-side history
+  useEffect(() => {
+    loadChatHistory()
+  }, [loadChatHistory])
+
+  const handleLoadOlder = async () => {
+    if (!hasMoreHistory || isHistoryLoading) return
+    previousScrollHeightRef.current = scrollContainerRef.current?.scrollHeight ?? null
+    await loadOlderHistory()
+  }
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (isHistoryConversation && e.currentTarget.scrollTop < 40) {
+      handleLoadOlder()
+    }
+  }
+
   useEffect(() => {
     document.documentElement.classList.toggle('dark', isDark)
     localStorage.setItem('abu-theme', isDark ? 'dark' : 'light')
@@ -124,8 +178,17 @@ export default function ChatPage() {
       }`}>
         <div className="w-full px-6 py-0 h-full">
           <div className="flex items-center justify-between w-full h-full">
-            {/* Left Side - Logo Only */}
+            {/* Left Side - Sidebar Toggle and Logo */}
             <div className="flex items-center h-full">
+              <button
+                onClick={() => setIsSidebarOpen(true)}
+                className={`lg:hidden p-2 mr-2 rounded-lg transition-colors ${
+                  isDark ? 'text-navy-300 hover:bg-navy-800' : 'text-navy-700 hover:bg-navy-100'
+                }`}
+                title="Sohbetler"
+              >
+                <PanelLeft className="w-5 h-5" />
+              </button>
               <img 
                 src={isDark ? "/ABU-logo-en-beyaz.png" : "/ABU-logo-tr-lacivert.png"}
                 alt="ABU Logo" 
@@ -150,239 +213,336 @@ export default function ChatPage() {
         </div>
       </div>
 
-      {/* Main Content */}
-      <div className="flex-1 max-w-4xl mx-auto px-6 py-6 w-full overflow-y-auto">
-        {/* Welcome Screen */}
-        {messages.length === 0 && (
-          <motion.div 
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="text-center mb-8"
-          >
-            {/* Lottie Animation */}
-            <div className="flex justify-center mb-6">
-              {animationData ? (
-                <div 
-                  className="cursor-pointer transition-transform duration-300 hover:scale-105"
-                  onMouseEnter={handleAnimationHover}
-                >
-                  <Lottie 
-                    lottieRef={lottieRef}
-                    animationData={animationData}
-                    style={{ width: 240, height: 240 }}
-                    loop={shouldLoop}
-                    autoplay={true}
-                    onComplete={handleAnimationComplete}
-                  />
-                </div>
-              ) : (
-                <div className="w-[240px] h-[240px] flex items-center justify-center">
-                  <div className={`animate-spin rounded-full h-12 w-12 border-b-2 ${
-                    isDark ? 'border-navy-400' : 'border-navy-600'
-                  }`}></div>
-                </div>
-              )}
-            </div>
+      <div className="flex-1 flex overflow-hidden">
+        {/* Conversations */}
+        <ConversationSidebar
+          isDark={isDark}
+          isOpen={isSidebarOpen}
+          onClose={() => setIsSidebarOpen(false)}
+        />
+
+        {/* Main Content */}
+        <div
+          ref={scrollContainerRef}
+          onScroll={handleScroll}
+          className="flex-1 max-w-4xl mx-auto px-6 py-6 w-full overflow-y-auto"
+        >
+          {/* Welcome Screen */}
+          {messages.length === 0 && (
+            <motion.div 
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="text-center mb-8"
+            >
+              {/* Lottie Animation */}
+              <div className="flex justify-center mb-6">
+                {animationData ? (
+                  <div 
+                    className="cursor-pointer transition-transform duration-300 hover:scale-105"
+                    onMouseEnter={handleAnimationHover}
+                  >
+                    <Lottie 
+                      lottieRef={lottieRef}
+                      animationData={animationData}
+                      style={{ width: 240, height: 240 }}
+                      loop={shouldLoop}
+                      autoplay={true}
+                      onComplete={handleAnimationComplete}
+                    />
+                  </div>
+                ) : (
+                  <div className="w-[240px] h-[240px] flex items-center justify-center">
+                    <div className={`animate-spin rounded-full h-12 w-12 border-b-2 ${
+                      isDark ? 'border-navy-400' : 'border-navy-600'
+                    }`}></div>
+                  </div>
+                )}
+              </div>
             
-            <h2 className={`text-3xl font-display font-bold mb-4 ${
-              isDark ? 'text-white' : 'text-navy-900'
-            }`}>
-              Merhaba! 👋
-            </h2>
-            <p className={`text-lg mb-6 ${
-              isDark ? 'text-navy-300' : 'text-navy-600'
-            }`}>
-              ABU hakkında merak ettiklerinizi sorabilirsiniz!
-            </p>
-
-            {/* Quick Questions */}
-            <div className="grid grid-cols-2 gap-3 max-w-2xl mx-auto">
-              {quickQuestions.map((item, index) => (
-                <motion.button
-                  key={index}
+              <h2 className={`text-3xl font-display font-bold mb-4 ${
+                isDark ? 'text-white' : 'text-navy-900'
+              }`}>
+                Merhaba! 👋
+              </h2>
+              <p className={`text-lg mb-6 ${
+                isDark ? 'text-navy-300' : 'text-navy-600'
+              }`}>
+                ABU hakkında merak ettiklerinizi sorabilirsiniz!
+              </p>
+
+              {/* Quick Questions */}
+              <div className="grid grid-cols-2 gap-3 max-w-2xl mx-auto">
+                {quickQuestions.map((item, index) => (
+                  <motion.button
+                    key={index}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: index * 0.1 }}
+                    onClick={() => handleQuickQuestion(item.text)}
+                    className={`p-3 rounded-xl transition-all duration-300 text-left group ${
+                      isDark 
+                        ? 'bg-navy-800/50 hover:bg-navy-700/50 border border-navy-700' 
+                        : 'bg-white hover:bg-navy-50 border border-navy-200 shadow-sm hover:shadow-md'
+                    }`}
+                  >
+                    <item.icon className={`w-5 h-5 mb-2 transition-colors ${
+                      isDark ? 'text-navy-400 group-hover:text-navy-300' : 'text-navy-600 group-hover:text-navy-700'
+                    }`} />
+                    <span className={`text-sm font-medium ${
+                      isDark ? 'text-navy-200' : 'text-navy-800'
+                    }`}>
+                      {item.text}
+                    </span>
+                  </motion.button>
+                ))}
+              </div>
+            </motion.div>
+          )}
+
+          {/* Older History */}
+          {isHistoryConversation && (hasMoreHistory || isHistoryLoading) && (
+            <div className="flex justify-center mb-4">
+              <button
+                onClick={handleLoadOlder}
+                disabled={isHistoryLoading}
+                className={`text-xs px-3 py-1.5 rounded-full transition-colors ${
+                  isDark ? 'text-navy-300 hover:bg-navy-800' : 'text-navy-600 hover:bg-navy-100'
+                }`}
+              >
+                {isHistoryLoading ? 'Yükleniyor...' : 'Daha eski mesajları yükle'}
+              </button>
+            </div>
+          )}
+
+          {/* Messages */}
+          <div className="space-y-4 mb-6">
+            <AnimatePresence>
+              {messages.map((msg) => (
+                <motion.div
+                  key={msg.id}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.1 }}
-                  onClick={() => handleQuickQuestion(item.text)}
-                  className={`p-3 rounded-xl transition-all duration-300 text-left group ${
-                    isDark 
-                      ? 'bg-navy-800/50 hover:bg-navy-700/50 border border-navy-700' 
-                      : 'bg-white hover:bg-navy-50 border border-navy-200 shadow-sm hover:shadow-md'
-                  }`}
+                  exit={{ opacity: 0, y: -20 }}
+                  className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
                 >
-                  <item.icon className={`w-5 h-5 mb-2 transition-colors ${
-                    isDark ? 'text-navy-400 group-hover:text-navy-300' : 'text-navy-600 group-hover:text-navy-700'
-                  }`} />
-                  <span className={`text-sm font-medium ${
-                    isDark ? 'text-navy-200' : 'text-navy-800'
+                  <div className={`flex gap-3 max-w-[80%] ${
+                    msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'
                   }`}>
-                    {item.text}
-                  </span>
-                </motion.button>
+                    {/* Avatar */}
+                    <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
+                      msg.role === 'user' 
+                        ? isDark ? 'bg-navy-700' : 'bg-navy-200'
+                        : isDark ? 'bg-navy-800' : 'bg-white border border-navy-200'
+                    }`}>
+                      {msg.role === 'user' ? (
+                        <User className={`w-4 h-4 ${
+                          isDark ? 'text-navy-300' : 'text-navy-700'
+                        }`} />
+                      ) : (
+                        <GraduationCap className={`w-4 h-4 ${
+                          isDark ? 'text-navy-300' : 'text-navy-600'
+                        }`} />
+                      )}
+                    </div>
+
+                    {/* Message Bubble */}
+                    <div className={`px-4 py-3 rounded-2xl ${
+                      msg.role === 'user'
+                        ? isDark 
+                          ? 'bg-navy-700 text-navy-100' 
+                          : 'bg-navy-600 text-white'
+                        : isDark 
+                          ? 'bg-navy-800 text-navy-100' 
+                          : 'bg-white text-navy-900 border border-navy-200'
+                    }`}>
+                      {msg.role === 'assistant' ? (
+                        <MarkdownMessage content={msg.content} className="text-sm leading-relaxed" />
+                      ) : (
+                        <p className="text-sm leading-relaxed whitespace-pre-wrap">{msg.content}</p>
+                      )}
+                      {msg.interrupted && (
+                        <p className={`text-xs mt-2 italic ${isDark ? 'text-navy-400' : 'text-navy-500'}`}>
+                          Yanıt durduruldu
+                        </p>
+                      )}
+                      {msg.role === 'assistant' && msg.sources && msg.sources.length > 0 && (
+                        <MessageSources sources={msg.sources} isDark={isDark} />
+                      )}
+                      {msg.role === 'assistant' && (msg.id === lastAssistantId || (msg.variants?.length ?? 0) > 1) && (
+                        <div className={`flex items-center gap-1 mt-2 text-xs ${
+                          isDark ? 'text-navy-400' : 'text-navy-500'
+                        }`}>
+                          {msg.variants && msg.variants.length > 1 && (
+                            <>
+                              <button
+                                onClick={() => selectVariant(msg.id, (msg.variantIndex ?? 0) - 1)}
+                                disabled={isStreaming || (msg.variantIndex ?? 0) === 0}
+                                className="p-1 rounded hover:bg-navy-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                                title="Önceki yanıt"
+                              >
+                                <ChevronLeft className="w-3.5 h-3.5" />
+                              </button>
+                              <span className="tabular-nums">
+                                {(msg.variantIndex ?? 0) + 1}/{msg.variants.length}
+                              </span>
+                              <button
+                                onClick={() => selectVariant(msg.id, (msg.variantIndex ?? 0) + 1)}
+                                disabled={isStreaming || (msg.variantIndex ?? 0) === msg.variants.length - 1}
+                                className="p-1 rounded hover:bg-navy-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                                title="Sonraki yanıt"
+                              >
+                                <ChevronRight className="w-3.5 h-3.5" />
+                              </button>
+                            </>
+                          )}
+                          {msg.id === lastAssistantId && (
+                            <button
+                              onClick={() => regenerateLastAnswer()}
+                              disabled={isLoading || isStreaming}
+                              className="flex items-center gap-1 px-1.5 py-1 rounded hover:bg-navy-500/10 disabled:opacity-40 disabled:cursor-not-allowed"
+                              title="Yanıtı yeniden oluştur"
+                            >
+                              <RotateCcw className="w-3.5 h-3.5" />
+                              <span>Yeniden oluştur</span>
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      <p className={`text-xs mt-2 opacity-70 ${
+                        msg.role === 'user' ? 'text-right' : 'text-left'
+                      }`}>
+                        {new Date(msg.timestamp).toLocaleTimeString('tr-TR', {
+                          hour: '2-digit',
+                          minute: '2-digit'
+                        })}
+                      </p>
+                    </div>
+                  </div>
+                </motion.div>
               ))}
-            </div>
-          </motion.div>
-        )}
+            </AnimatePresence>
 
-        {/* Messages */}
-        <div className="space-y-4 mb-6">
-          <AnimatePresence>
-            {messages.map((msg, index) => (
+            {/* Streaming Message */}
+            {isStreaming && streamingMessage && (
+              <StreamingMessage 
+                streamingMessage={streamingMessage} 
+                isDark={isDark} 
+              />
+            )}
+
+            {/* Loading */}
+            {isLoading && !streamingMessage && (
               <motion.div
-                key={index}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                className="flex justify-start"
               >
-                <div className={`flex gap-3 max-w-[80%] ${
-                  msg.role === 'user' ? 'flex-row-reverse' : 'flex-row'
-                }`}>
-                  {/* Avatar */}
+                <div className="flex gap-3 max-w-[80%]">
                   <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
-                    msg.role === 'user' 
-                      ? isDark ? 'bg-navy-700' : 'bg-navy-200'
-                      : isDark ? 'bg-navy-800' : 'bg-white border border-navy-200'
+                    isDark ? 'bg-navy-800' : 'bg-white border border-navy-200'
                   }`}>
-                    {msg.role === 'user' ? (
-                      <User className={`w-4 h-4 ${
-                        isDark ? 'text-navy-300' : 'text-navy-700'
-                      }`} />
-                    ) : (
-                      <GraduationCap className={`w-4 h-4 ${
-                        isDark ? 'text-navy-300' : 'text-navy-600'
-                      }`} />
-                    )}
+                    <GraduationCap className={`w-4 h-4 ${
+                      isDark ? 'text-navy-300' : 'text-navy-600'
+                    }`} />
                   </div>
-
-                  {/* Message Bubble */}
                   <div className={`px-4 py-3 rounded-2xl ${
-                    msg.role === 'user'
-                      ? isDark 
-                        ? 'bg-navy-700 text-navy-100' 
-                        : 'bg-navy-600 text-white'
-                      : isDark 
-                        ? 'bg-navy-800 text-navy-100' 
-                        : 'bg-white text-navy-900 border border-navy-200'
+                    isDark ? 'bg-navy-800' : 'bg-white border border-navy-200'
                   }`}>
-                    <p className="text-sm leading-relaxed">{msg.content}</p>
-                    <p className={`text-xs mt-2 opacity-70 ${
-                      msg.role === 'user' ? 'text-right' : 'text-left'
-                    }`}>
-                      {new Date(msg.timestamp).toLocaleTimeString('tr-TR', {
-                        hour: '2-digit',
-                        minute: '2-digit'
-                      })}
-                    </p>
+                    <div className="flex gap-1">
+                      {[0, 1, 2].map((i) => (
+                        <motion.div
+                          key={i}
+                          animate={{ scale: [1, 1.2, 1] }}
+                          transition={{ duration: 0.6, repeat: Infinity, delay: i * 0.2 }}
+                          className={`w-2 h-2 rounded-full ${
+                            isDark ? 'bg-navy-300' : 'bg-navy-400'
+                          }`}
+                        />
+                      ))}
+                    </div>
                   </div>
                 </div>
               </motion.div>
-            ))}
-          </AnimatePresence>
-
-          {/* Streaming Message */}
-          {isStreaming && streamingMessage && (
-            <StreamingMessage 
-              streamingMessage={streamingMessage} 
-              isDark={isDark} 
-            />
-          )}
-
-          {/* Loading */}
-          {isLoading && !streamingMessage && (
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="flex justify-start"
-            >
-              <div className="flex gap-3 max-w-[80%]">
-                <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${
-                  isDark ? 'bg-navy-800' : 'bg-white border border-navy-200'
-                }`}>
-                  <GraduationCap className={`w-4 h-4 ${
-                    isDark ? 'text-navy-300' : 'text-navy-600'
-                  }`} />
-                </div>
-                <div className={`px-4 py-3 rounded-2xl ${
-                  isDark ? 'bg-navy-800' : 'bg-white border border-navy-200'
-                }`}>
-                  <div className="flex gap-1">
-                    {[0, 1, 2].map((i) => (
-                      <motion.div
-                        key={i}
-                        animate={{ scale: [1, 1.2, 1] }}
-                        transition={{ duration: 0.6, repeat: Infinity, delay: i * 0.2 }}
-                        className={`w-2 h-2 rounded-full ${
-                          isDark ? 'bg-navy-300' : 'bg-navy-400'
-                        }`}
-                      />
-                    ))}
-                  </div>
-                </div>
-              </div>
-            </motion.div>
-          )}
+            )}
           
-          <div ref={messagesEndRef} />
-        </div>
+            <div ref={messagesEndRef} />
+          </div>
 
-                {/* Message Input */}
-        <form onSubmit={handleSubmit} className="relative">
-          <div className={`flex gap-3 p-4 rounded-2xl backdrop-blur-md ${
-            isDark 
-              ? 'bg-navy-800/50 border border-navy-700' 
-              : 'bg-white/80 border border-navy-200 shadow-lg'
-          }`}>
-            <input
-              type="text"
-              value={message}
-              onChange={(e) => setMessage(e.target.value)}
-              placeholder="Mesajınızı yazın..."
-              className={`flex-1 bg-transparent border-none outline-none text-sm placeholder:transition-colors ${
-                isDark 
-                  ? 'text-navy-100 placeholder:text-navy-400' 
-                  : 'text-navy-900 placeholder:text-navy-500'
-              }`}
-              disabled={isLoading || isStreaming}
-            />
+                  {/* Message Input */}
+          <form onSubmit={handleSubmit} className="relative">
+            <div className={`flex gap-3 p-4 rounded-2xl backdrop-blur-md ${
+              isDark 
+                ? 'bg-navy-800/50 border border-navy-700' 
+                : 'bg-white/80 border border-navy-200 shadow-lg'
+            }`}>
+              <input
+                type="text"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                placeholder="Mesajınızı yazın..."
+                className={`flex-1 bg-transparent border-none outline-none text-sm placeholder:transition-colors ${
+                  isDark 
+                    ? 'text-navy-100 placeholder:text-navy-400' 
+                    : 'text-navy-900 placeholder:text-navy-500'
+                }`}
+                disabled={isLoading || isStreaming}
+              />
             
-            {/* Voice Assistant Button */}
-            <button
-              type="button"
-              onClick={() => setIsVoiceAssistantOpen(true)}
-              disabled={isLoading || isStreaming}
-              className={`p-2 rounded-xl transition-all duration-300 ${
-                isLoading || isStreaming
-                  ? isDark 
-                    ? 'bg-navy-700 text-navy-500 cursor-not-allowed' 
-                    : 'bg-navy-100 text-navy-400 cursor-not-allowed'
-                  : isDark 
-                    ? 'bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white shadow-lg hover:shadow-xl' 
-                    : 'bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white shadow-md hover:shadow-lg'
-              }`}
-              title="Sesli Asistan"
-            >
-              <Mic className="w-4 h-4" />
-            </button>
-
-            {/* Send Button */}
-            <button
-              type="submit"
-              disabled={!message.trim() || isLoading || isStreaming}
-              className={`p-2 rounded-xl transition-all duration-300 ${
-                !message.trim() || isLoading || isStreaming
-                  ? isDark 
-                    ? 'bg-navy-700 text-navy-500 cursor-not-allowed' 
-                    : 'bg-navy-100 text-navy-400 cursor-not-allowed'
-                  : isDark 
-                    ? 'bg-navy-600 hover:bg-navy-500 text-white' 
-                    : 'bg-navy-600 hover:bg-navy-700 text-white'
-              }`}
-            >
-              <Send className="w-4 h-4" />
-            </button>
-          </div>
-        </form>
+              {/* Voice Assistant Button */}
+              {features.voice && (
+                <button
+                  type="button"
+                  onClick={() => setIsVoiceAssistantOpen(true)}
+                  disabled={isLoading || isStreaming}
+                  className={`p-2 rounded-xl transition-all duration-300 ${
+                    isLoading || isStreaming
+                      ? isDark 
+                        ? 'bg-navy-700 text-navy-500 cursor-not-allowed' 
+                        : 'bg-navy-100 text-navy-400 cursor-not-allowed'
+                      : isDark 
+                        ? 'bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white shadow-lg hover:shadow-xl' 
+                        : 'bg-gradient-to-r from-red-500 to-red-600 hover:from-red-600 hover:to-red-700 text-white shadow-md hover:shadow-lg'
+                  }`}
+                  title="Sesli Asistan"
+                >
+                  <Mic className="w-4 h-4" />
+                </button>
+              )}
+
+              {/* Stop / Send Button */}
+              {isStreaming ? (
+                <button
+                  type="button"
+                  onClick={stopGeneration}
+                  className={`p-2 rounded-xl transition-all duration-300 ${
+                    isDark 
+                      ? 'bg-navy-600 hover:bg-navy-500 text-white' 
+                      : 'bg-navy-600 hover:bg-navy-700 text-white'
+                  }`}
+                  title="Yanıtı durdur"
+                >
+                  <Square className="w-4 h-4 fill-current" />
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={!message.trim() || isLoading || isStreaming}
+                  className={`p-2 rounded-xl transition-all duration-300 ${
+                    !message.trim() || isLoading || isStreaming
+                      ? isDark 
+                        ? 'bg-navy-700 text-navy-500 cursor-not-allowed' 
+                        : 'bg-navy-100 text-navy-400 cursor-not-allowed'
+                      : isDark 
+                        ? 'bg-navy-600 hover:bg-navy-500 text-white' 
+                        : 'bg-navy-600 hover:bg-navy-700 text-white'
+                  }`}
+                >
+                  <Send className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </form>
+        </div>
       </div>
 
       {/* Footer */}
@@ -470,11 +630,13 @@ export default function ChatPage() {
       </footer>
 
       {/* Voice Assistant Modal */}
-      <VoiceAssistant 
-        isOpen={isVoiceAssistantOpen}
-        onClose={() => setIsVoiceAssistantOpen(false)}
-        isDark={isDark}
-      />
+      {features.voice && (
+        <VoiceAssistant 
+          isOpen={isVoiceAssistantOpen}
+          onClose={() => setIsVoiceAssistantOpen(false)}
+          isDark={isDark}
+        />
+      )}
     </div>
   )
 } 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import axios, { type AxiosResponse } from 'axios';
+import axios, { type AxiosRequestConfig } from 'axios';
 import type {
   LoginRequest,
   LoginResponse,
@@ -12,23 +12,26 @@ import type {
   ChatHistoryItem,
   UploadProgress,
   UploadSession,
-  DocumentStats
+  DocumentStats,
+  CacheStatus,
+  ClearCacheResponse
 } from '../types';
+import { createApiClient } from './openapi';
+import { getConfig } from './config';
+import { getToken, getAuthHeaders, clearToken } from './authToken';
 
-const API_BASE_URL = 'http://localhost:8000';
-
-// Create axios instance
+// Create axios instance; the base URL is resolved per request from the runtime config
 const api = axios.create({
-  baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
-// Request interceptor to add auth token
+// Request interceptor to resolve the base URL and add auth token
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('token');
+    config.baseURL = getConfig().apiBaseUrl;
+    const token = getToken();
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -39,41 +42,67 @@ api.interceptors.request.use(
   }
 );
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Made from the admin dashboard on an endpoint that is public as well
+    adminSession?: boolean;
+  }
+}
+
+// Endpoints that need an admin session; a 401 from public chat calls is left to the caller
+const ADMIN_PATH_PREFIXES = ['/api/upload', '/api/documents', '/api/stats', '/api/admin'];
+
+const isAdminRequest = (config?: AxiosRequestConfig): boolean =>
+  !!config && (!!config.adminSession || ADMIN_PATH_PREFIXES.some((prefix) => config.url?.startsWith(prefix)));
+
+let unauthorizedHandler: (() => void) | null = null;
+
+// Registered by the auth store to show the re-login modal
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
 // Response interceptor for error handling
 api.interceptors.response.use(
   (response) => response,
   (error) => {
-    if (error.response?.status === 401) {
-      localStorage.removeItem('token');
-      localStorage.removeItem('auth-storage');
-      window.location.href = '/admin';
+    if (error.response?.status === 401 && isAdminRequest(error.config)) {
+      if (unauthorizedHandler) {
+        unauthorizedHandler();
+      } else {
+        clearToken();
+        localStorage.removeItem('auth-storage');
+        window.location.href = '/admin';
+      }
     }
     return Promise.reject(error);
   }
 );
 
+// Typed client generated from endpoints.json (npm run generate:api)
+const client = createApiClient(api);
+
 // API Services
 export const authService = {
   login: async (credentials: LoginRequest): Promise<LoginResponse> => {
-    const response: AxiosResponse<LoginResponse> = await api.post('/api/login', credentials);
-    return response.data;
+    return client.login(credentials);
   },
 };
 
 export const chatService = {
-  sendMessage: async (message: ChatMessage): Promise<ChatResponse> => {
-    const response: AxiosResponse<ChatResponse> = await api.post('/api/chat', message);
-    return response.data;
+  sendMessage: async (message: ChatMessage, signal?: AbortSignal): Promise<ChatResponse> => {
+    return client.chatWithDocuments(message, { signal });
   },
 
-  sendMessageStream: async (message: ChatMessage): Promise<ReadableStream> => {
-    const response = await fetch(`${API_BASE_URL}/api/chat/stream`, {
+  sendMessageStream: async (message: ChatMessage, signal?: AbortSignal): Promise<ReadableStream> => {
+    const response = await fetch(`${getConfig().apiBaseUrl}/api/chat/stream`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${localStorage.getItem('token')}`
+        ...getAuthHeaders()
       },
-      body: JSON.stringify(message)
+      body: JSON.stringify(message),
+      signal
     });
     
     if (!response.ok) {
@@ -83,68 +112,65 @@ export const chatService = {
     return response.body!;
   },
 
-  getChatHistory: async (limit: number = 50): Promise<ChatHistoryItem[]> => {
-    const response: AxiosResponse<ChatHistoryItem[]> = await api.get(`/api/chat/history?limit=${limit}`);
-    return response.data;
+  // The dashboard passes `admin` so an expired session opens the re-login modal
+  getChatHistory: async (limit: number = 50, options: { admin?: boolean } = {}): Promise<ChatHistoryItem[]> => {
+    return client.getChatHistory<ChatHistoryItem[]>({ limit }, { adminSession: options.admin });
   },
 
   clearChatHistory: async (): Promise<void> => {
-    await api.delete('/api/chat/history');
+    await client.clearChatHistory();
   },
 };
 
 export const documentService = {
-  uploadDocuments: async (files: File[]): Promise<UploadResponse> => {
+  uploadDocuments: async (
+    files: File[],
+    options?: { signal?: AbortSignal; onUploadProgress?: (percent: number) => void }
+  ): Promise<UploadResponse> => {
     const formData = new FormData();
     files.forEach(file => {
       formData.append('files', file);
     });
 
-    const response: AxiosResponse<UploadResponse> = await api.post('/api/upload', formData, {
+    return client.uploadDocuments(formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      signal: options?.signal,
+      onUploadProgress: (event) => {
+        if (event.total) options?.onUploadProgress?.(Math.round((event.loaded * 100) / event.total));
+      },
     });
-    return response.data;
   },
 
   // Upload Progress Tracking
   getUploadProgress: async (sessionId: string): Promise<UploadProgress> => {
-    const response: AxiosResponse<UploadProgress> = await api.get(`/api/upload/progress/${sessionId}`);
-    return response.data;
+    return client.getUploadProgress<UploadProgress>(sessionId);
   },
 
   getUploadSessions: async (limit: number = 10): Promise<UploadSession[]> => {
-    const response: AxiosResponse<UploadSession[]> = await api.get(`/api/upload/sessions?limit=${limit}`);
-    return response.data;
+    return client.getRecentUploadSessions<UploadSession[]>({ limit });
   },
 
   // Document Management
   getDocuments: async (): Promise<DocumentInfo[]> => {
-    const response: AxiosResponse<DocumentInfo[]> = await api.get('/api/documents');
-    return response.data;
+    return client.listDocuments();
   },
 
   getDocumentContent: async (documentId: string, showChunks: boolean = false): Promise<DocumentContent> => {
-    const response: AxiosResponse<DocumentContent> = await api.get(
-      `/api/documents/${documentId}/content?show_chunks=${showChunks}`
-    );
-    return response.data;
+    return client.getDocumentContent(documentId, { show_chunks: showChunks });
   },
 
   getDocumentDetails: async (documentId: string): Promise<DocumentDetails> => {
-    const response: AxiosResponse<DocumentDetails> = await api.get(
-      `/api/documents/${documentId}/info`
-    );
-    return response.data;
+    return client.getDocumentDetails(documentId);
   },
 
   deleteDocument: async (documentId: string): Promise<void> => {
-    await api.delete(`/api/documents/${documentId}`);
+    await client.removeDocument(documentId);
   },
 
   clearAllDocuments: async (): Promise<void> => {
-    await api.delete('/api/documents');
+    await client.clearAllDocuments();
   },
 
   // Document Statistics
@@ -169,13 +195,21 @@ export const documentService = {
 
 export const systemService = {
   getStats: async (): Promise<SystemStats> => {
-    const response: AxiosResponse<SystemStats> = await api.get('/api/stats');
-    return response.data;
+    return client.getSystemStats<SystemStats>();
   },
 
   getHealth: async (): Promise<{ status: string }> => {
-    const response: AxiosResponse<{ status: string }> = await api.get('/health');
-    return response.data;
+    return client.healthCheck<{ status: string }>();
+  },
+};
+
+export const adminService = {
+  getCacheStatus: async (): Promise<CacheStatus> => {
+    return client.getCacheStatus<CacheStatus>();
+  },
+
+  clearCache: async (): Promise<ClearCacheResponse> => {
+    return client.clearSystemCache<ClearCacheResponse>();
   },
 };
 
@@ -189,12 +223,10 @@ export const speechService = {
     formData.append('gender', gender);
     formData.append('language', language);
 
-    const response = await fetch(`${API_BASE_URL}/api/speech-to-speech`, {
+    const response = await fetch(`${getConfig().apiBaseUrl}/api/speech-to-speech`, {
       method: 'POST',
       body: formData,
-      headers: {
-        'Authorization': `Bearer ${localStorage.getItem('token')}`
-      },
+      headers: getAuthHeaders(),
       signal
     });
 
@@ -213,12 +245,10 @@ export const speechService = {
     formData.append('voice', voice);
     formData.append('gender', gender);
 
-    const response = await fetch(`${API_BASE_URL}/api/text-to-speech`, {
+    const response = await fetch(`${getConfig().apiBaseUrl}/api/text-to-speech`, {
       method: 'POST',
       body: formData,
-      headers: {
-        'Authorization': `Bearer ${localStorage.getItem('token')}`
-      },
+      headers: getAuthHeaders(),
       signal
     });
 
@@ -230,8 +260,7 @@ export const speechService = {
   },
 
   getVoices: async (): Promise<string[]> => {
-    const response: AxiosResponse<string[]> = await api.get('/api/speech/voices');
-    return response.data;
+    return client.getSpeechVoices<string[]>();
   },
 };
 
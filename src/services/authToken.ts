@@ -0,0 +1,35 @@
+// Single source of the admin access token.
+//
+// The axios instance, the raw fetch calls (chat stream, speech) and the auth
+// store all read and write the token through this module; the persisted auth
+// store only keeps data derived from it (email, expiry, role).
+
+const TOKEN_KEY = 'token';
+
+export function getToken(): string | null {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function setToken(token: string): void {
+  localStorage.setItem(TOKEN_KEY, token);
+}
+
+export function clearToken(): void {
+  localStorage.removeItem(TOKEN_KEY);
+}
+
+export function getAuthHeaders(): Record<string, string> {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Storage events only fire in the other tabs, so this reports logins and
+// logouts made elsewhere. `key === null` means the whole storage was cleared.
+export function onExternalTokenChange(listener: (token: string | null) => void): () => void {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.storageArea !== localStorage) return;
+    if (event.key === TOKEN_KEY || event.key === null) listener(getToken());
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import curlOutput from '../../curl_output.txt?raw';
+import curlTest2 from '../../curl_test2.txt?raw';
+import curlOdemeTest from '../../curl_odeme_test.txt?raw';
+import {
+  createEventStreamParser,
+  decodeServerSentEvent,
+  readChatStream,
+  splitConcatenatedJson,
+  type ChatStreamEvent,
+  type ServerSentEvent,
+} from './chatStream';
+
+const parseAll = (chunks: string[]): ServerSentEvent[] => {
+  const events: ServerSentEvent[] = [];
+  const parser = createEventStreamParser((event) => events.push(event));
+  chunks.forEach((chunk) => parser.feed(chunk));
+  parser.flush();
+  return events;
+};
+
+const streamOf = (chunks: Uint8Array[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+
+const splitBytes = (bytes: Uint8Array, size: number): Uint8Array[] => {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < bytes.length; i += size) chunks.push(bytes.slice(i, i + size));
+  return chunks;
+};
+
+const collect = async (stream: ReadableStream<Uint8Array>): Promise<ChatStreamEvent[]> => {
+  const events: ChatStreamEvent[] = [];
+  for await (const event of readChatStream(stream)) events.push(event);
+  return events;
+};
+
+const contentOf = (events: ChatStreamEvent[]) =>
+  events.map((event) => (event.type === 'content' ? event.content : '')).join('');
+
+describe('createEventStreamParser', () => {
+  it('joins multi-line data with newlines', () => {
+    expect(parseAll(['data: first\ndata: second\n\n'])).toEqual([{ event: 'message', data: 'first\nsecond' }]);
+  });
+
+  it('reads event, id and retry fields', () => {
+    expect(parseAll(['event: error\nid: 7\nretry: 3000\ndata: boom\n\n'])).toEqual([
+      { event: 'error', data: 'boom', id: '7', retry: 3000 },
+    ]);
+  });
+
+  it('accepts CRLF and bare CR line endings, also when CRLF is split across chunks', () => {
+    expect(parseAll(['data: a\r\n\r\ndata: b\r', '\n\r', '\ndata: c\r\r'])).toEqual([
+      { event: 'message', data: 'a' },
+      { event: 'message', data: 'b' },
+      { event: 'message', data: 'c' },
+    ]);
+  });
+
+  it('skips comments and dispatches a trailing event on flush', () => {
+    expect(parseAll([': keep-alive\n\n', 'data: last'])).toEqual([{ event: 'message', data: 'last' }]);
+  });
+
+  it('yields the same events for a fixture fed whole and in small chunks', () => {
+    const whole = parseAll([curlTest2]);
+    const chunks = curlTest2.match(/[\s\S]{1,7}/g) ?? [];
+    expect(parseAll(chunks)).toEqual(whole);
+    expect(whole.length).toBeGreaterThan(1);
+  });
+});
+
+describe('splitConcatenatedJson', () => {
+  it('splits objects written back to back', () => {
+    expect(splitConcatenatedJson('{"a":1}{"b":"}{"}  {"c":[1,2]}')).toEqual(['{"a":1}', '{"b":"}{"}', '{"c":[1,2]}']);
+  });
+
+  it('returns null for text that is not a run of objects', () => {
+    expect(splitConcatenatedJson('plain text')).toBeNull();
+    expect(splitConcatenatedJson('{"a":1')).toBeNull();
+  });
+});
+
+describe('decodeServerSentEvent', () => {
+  it('recognises [DONE]', () => {
+    expect(decodeServerSentEvent({ event: 'message', data: '[DONE]' })).toEqual([{ type: 'done' }]);
+  });
+
+  it('unwraps content events encoded twice', () => {
+    const inner = JSON.stringify({ type: 'content', content: 'Merhaba', done: false });
+    const data = JSON.stringify({ type: 'content', content: inner, done: false });
+    expect(decodeServerSentEvent({ event: 'message', data })).toEqual([{ type: 'content', content: 'Merhaba' }]);
+  });
+
+  it('decodes a full_response made of concatenated encoded events', () => {
+    const data = JSON.stringify({
+      type: 'complete',
+      full_response:
+        JSON.stringify({ type: 'content', content: 'Yanıt\n', done: false }) +
+        JSON.stringify({ type: 'content', content: 'satır', done: false }),
+      sources: [],
+    });
+    expect(decodeServerSentEvent({ event: 'message', data })).toEqual([
+      { type: 'complete', fullResponse: 'Yanıt\nsatır', sources: [] },
+    ]);
+  });
+
+  it('turns error events into error messages', () => {
+    expect(decodeServerSentEvent({ event: 'error', data: JSON.stringify({ message: 'Sunucu hatası' }) })).toEqual([
+      { type: 'error', message: 'Sunucu hatası' },
+    ]);
+  });
+
+  it('keeps data it cannot parse as unknown', () => {
+    expect(decodeServerSentEvent({ event: 'message', data: 'not json' })).toEqual([{ type: 'unknown', data: 'not json' }]);
+  });
+});
+
+describe('readChatStream', () => {
+  const encoder = new TextEncoder();
+
+  it.each([
+    ['curl_test2.txt', curlTest2],
+    ['curl_odeme_test.txt', curlOdemeTest],
+  ])('%s: streamed content matches the complete event', async (_, fixture) => {
+    const events = await collect(streamOf([encoder.encode(fixture)]));
+    const complete = events.find((event) => event.type === 'complete');
+    expect(complete?.type).toBe('complete');
+    if (complete?.type !== 'complete') return;
+    expect(contentOf(events)).toBe(complete.fullResponse);
+    expect(complete.fullResponse).toContain('Ankara Bilim Üniversitesi');
+  });
+
+  it.each([
+    ['curl_output.txt', curlOutput],
+    ['curl_test2.txt', curlTest2],
+    ['curl_odeme_test.txt', curlOdemeTest],
+  ])('%s: small byte chunks give the same events as the whole file', async (_, fixture) => {
+    const bytes = encoder.encode(fixture);
+    const whole = await collect(streamOf([bytes]));
+    // Three-byte chunks split the two-byte Turkish characters across chunks
+    expect(await collect(streamOf(splitBytes(bytes, 3)))).toEqual(whole);
+    expect(contentOf(whole)).not.toContain('�');
+  });
+
+  it('decodes a UTF-8 character split across chunks', async () => {
+    const bytes = encoder.encode(`data: ${JSON.stringify({ type: 'content', content: 'ğ' })}\n\n`);
+    const at = bytes.indexOf(0xc4) + 1;
+    const events = await collect(streamOf([bytes.slice(0, at), bytes.slice(at)]));
+    expect(events).toEqual([{ type: 'content', content: 'ğ' }]);
+  });
+
+  it('stops at [DONE]', async () => {
+    const text = `data: ${JSON.stringify({ type: 'content', content: 'a' })}\n\ndata: [DONE]\n\ndata: ${JSON.stringify({ type: 'content', content: 'b' })}\n\n`;
+    const events = await collect(streamOf([encoder.encode(text)]));
+    expect(events).toEqual([{ type: 'content', content: 'a' }, { type: 'done' }]);
+  });
+});
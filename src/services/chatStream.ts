@@ -0,0 +1,299 @@
+import type { ChatSource } from '../types';
+
+// Chat stream protocol
+//
+// /api/chat/stream answers with Server-Sent Events (sometimes bare NDJSON lines).
+// Payloads are JSON objects with a `type` field, but the backend double-encodes
+// them: a `content` event usually carries another JSON-encoded event in its
+// `content` field, and the final `complete` event's `full_response` can be the
+// concatenation of every inner event. See curl_output.txt / curl_test2.txt.
+
+// A single framed event as it arrives on the wire
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+// Decoded chat events handed to the UI
+export type ChatStreamEvent =
+  | { type: 'content'; content: string }
+  | { type: 'complete'; fullResponse: string | null; sources: ChatSource[] }
+  | { type: 'error'; message: string }
+  | { type: 'done' }
+  | { type: 'unknown'; data: unknown };
+
+export interface EventStreamParser {
+  feed: (chunk: string) => void;
+  flush: () => void;
+}
+
+// Nested payloads are unwrapped at most this many levels deep
+const MAX_NESTING_DEPTH = 5;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const looksLikeJsonObject = (text: string): boolean => text.trimStart().startsWith('{');
+
+// Incremental SSE framer. Accepts decoded text in arbitrary pieces and emits one
+// ServerSentEvent per blank-line-terminated block. Lines that are bare JSON
+// objects (NDJSON) are emitted immediately.
+export function createEventStreamParser(onEvent: (event: ServerSentEvent) => void): EventStreamParser {
+  let buffer = '';
+  let dataLines: string[] = [];
+  let eventType = '';
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({
+        event: eventType || 'message',
+        data: dataLines.join('\n'),
+        id: lastEventId,
+        retry,
+      });
+    }
+    dataLines = [];
+    eventType = '';
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+
+    // Comment / keep-alive
+    if (line.startsWith(':')) return;
+
+    // NDJSON record without an SSE field name
+    if (looksLikeJsonObject(line)) {
+      dispatch();
+      onEvent({ event: 'message', data: line.trim(), id: lastEventId, retry });
+      return;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'event':
+        eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored per the SSE spec
+        break;
+    }
+  };
+
+  const drainLines = (final: boolean) => {
+    while (buffer.length > 0) {
+      const match = /\r\n|\r|\n/.exec(buffer);
+      if (!match) break;
+
+      // A trailing CR may be the first half of a CRLF split across chunks
+      if (!final && match[0] === '\r' && match.index === buffer.length - 1) break;
+
+      processLine(buffer.slice(0, match.index));
+      buffer = buffer.slice(match.index + match[0].length);
+    }
+  };
+
+  return {
+    feed: (chunk: string) => {
+      buffer += chunk;
+      drainLines(false);
+    },
+
+    flush: () => {
+      drainLines(true);
+      if (buffer) {
+        processLine(buffer);
+        buffer = '';
+      }
+      dispatch();
+    },
+  };
+}
+
+// Split `{...}{...}` into its top-level JSON objects. Returns null when the text
+// is not a plain concatenation of objects.
+export function splitConcatenatedJson(text: string): string[] | null {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      if (depth === 0) return null;
+      inString = true;
+    } else if (ch === '{') {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth < 0) return null;
+      if (depth === 0) parts.push(text.slice(start, i + 1));
+    } else if (depth === 0 && !/\s/.test(ch)) {
+      return null;
+    }
+  }
+
+  return depth === 0 && !inString && parts.length > 0 ? parts : null;
+}
+
+const tryParseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Resolve `full_response`, which is either plain text or a concatenation of
+// JSON-encoded stream events.
+function decodeFullResponse(value: unknown, depth: number): string | null {
+  if (typeof value !== 'string') return null;
+  if (!looksLikeJsonObject(value) || depth >= MAX_NESTING_DEPTH) return value;
+
+  const parts = splitConcatenatedJson(value.trim());
+  if (!parts) return value;
+
+  let accumulated = '';
+  let completed: string | null = null;
+
+  for (const part of parts) {
+    const parsed = tryParseJson(part);
+    if (parsed === undefined) return value;
+
+    for (const event of interpretPayload(parsed, depth + 1)) {
+      if (event.type === 'content') accumulated += event.content;
+      else if (event.type === 'complete' && event.fullResponse) completed = event.fullResponse;
+    }
+  }
+
+  return completed ?? accumulated;
+}
+
+const toErrorMessage = (payload: Record<string, unknown>): string => {
+  const message = payload.error ?? payload.message ?? payload.detail;
+  return typeof message === 'string' && message ? message : 'Stream error';
+};
+
+function interpretPayload(payload: unknown, depth: number = 0): ChatStreamEvent[] {
+  if (!isRecord(payload)) return [{ type: 'unknown', data: payload }];
+
+  switch (payload.type) {
+    case 'content': {
+      const content = payload.content;
+
+      // Double-encoded event inside the content field
+      if (typeof content === 'string' && looksLikeJsonObject(content) && depth < MAX_NESTING_DEPTH) {
+        const inner = tryParseJson(content);
+        if (isRecord(inner) && typeof inner.type === 'string') {
+          return interpretPayload(inner, depth + 1);
+        }
+      }
+
+      return [{ type: 'content', content: typeof content === 'string' ? content : '' }];
+    }
+
+    case 'complete':
+      return [{
+        type: 'complete',
+        fullResponse: decodeFullResponse(payload.full_response, depth),
+        sources: Array.isArray(payload.sources) ? (payload.sources as ChatSource[]) : [],
+      }];
+
+    case 'error':
+      return [{ type: 'error', message: toErrorMessage(payload) }];
+
+    default:
+      return [{ type: 'unknown', data: payload }];
+  }
+}
+
+// Turn one framed event into zero or more chat events
+export function decodeServerSentEvent(event: ServerSentEvent): ChatStreamEvent[] {
+  const data = event.data.trim();
+
+  if (data === '[DONE]') return [{ type: 'done' }];
+
+  const payload = tryParseJson(data);
+
+  if (event.event === 'error') {
+    const message = isRecord(payload) ? toErrorMessage(payload) : data || 'Stream error';
+    return [{ type: 'error', message }];
+  }
+
+  if (payload === undefined) return [{ type: 'unknown', data: event.data }];
+
+  return interpretPayload(payload);
+}
+
+// Read a fetch body and yield decoded chat events until the stream ends or a
+// [DONE] marker arrives.
+export async function* readChatStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  const pending: ServerSentEvent[] = [];
+  const parser = createEventStreamParser((event) => pending.push(event));
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (done) {
+        parser.feed(decoder.decode());
+        parser.flush();
+      } else {
+        // stream: true keeps multi-byte characters split across chunks intact
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+
+      while (pending.length > 0) {
+        for (const event of decodeServerSentEvent(pending.shift()!)) {
+          yield event;
+          if (event.type === 'done') {
+            finished = done;
+            return;
+          }
+        }
+      }
+
+      if (done) {
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    if (!finished) reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,72 @@
+// Deployment configuration.
+//
+// Build-time defaults come from Vite env variables (VITE_API_BASE_URL,
+// VITE_ENABLE_VOICE, VITE_ENABLE_STREAMING). An optional /config.json served
+// next to the app overrides them at runtime, so the same build can be deployed
+// to staging and production. loadConfig() runs once before the app renders.
+
+export interface FeatureToggles {
+  voice: boolean;
+  streaming: boolean;
+}
+
+export interface AppConfig {
+  apiBaseUrl: string;
+  features: FeatureToggles;
+}
+
+// Shape of public/config.json; every field is optional
+export interface RuntimeConfig {
+  apiBaseUrl?: string;
+  features?: Partial<FeatureToggles>;
+}
+
+const RUNTIME_CONFIG_URL = '/config.json';
+
+const envFlag = (value: string | undefined, fallback: boolean): boolean => {
+  if (value === undefined || value === '') return fallback;
+  return !['false', '0', 'off', 'no'].includes(value.trim().toLowerCase());
+};
+
+const trimTrailingSlash = (url: string): string => url.replace(/\/+$/, '');
+
+const envConfig: AppConfig = {
+  apiBaseUrl: trimTrailingSlash(import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000'),
+  features: {
+    voice: envFlag(import.meta.env.VITE_ENABLE_VOICE, true),
+    streaming: envFlag(import.meta.env.VITE_ENABLE_STREAMING, true),
+  },
+};
+
+let config: AppConfig = envConfig;
+
+export function getConfig(): AppConfig {
+  return config;
+}
+
+export function mergeConfig(base: AppConfig, runtime: RuntimeConfig): AppConfig {
+  return {
+    apiBaseUrl: typeof runtime.apiBaseUrl === 'string' && runtime.apiBaseUrl.trim()
+      ? trimTrailingSlash(runtime.apiBaseUrl.trim())
+      : base.apiBaseUrl,
+    features: {
+      voice: typeof runtime.features?.voice === 'boolean' ? runtime.features.voice : base.features.voice,
+      streaming: typeof runtime.features?.streaming === 'boolean' ? runtime.features.streaming : base.features.streaming,
+    },
+  };
+}
+
+// A missing or malformed config.json is not fatal; the env defaults apply
+export async function loadConfig(): Promise<AppConfig> {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-store' });
+    const contentType = response.headers.get('content-type') ?? '';
+    // The dev server answers unknown paths with index.html
+    if (response.ok && contentType.includes('json')) {
+      config = mergeConfig(envConfig, (await response.json()) as RuntimeConfig);
+    }
+  } catch (error) {
+    console.warn('Runtime config could not be loaded, using build defaults:', error);
+  }
+  return config;
+}
@@ -0,0 +1,185 @@
+// Generated from endpoints.json by scripts/generate-api.js. Do not edit by hand;
+// run `npm run generate:api` after the spec changes.
+// Spec: IntelliDocs API v2.0 (2.0.0)
+
+import type { AxiosInstance, AxiosRequestConfig } from 'axios';
+
+export interface Body_speech_to_speech_endpoint_api_speech_to_speech_post {
+  audio_file: Blob;
+  voice?: string;
+  language?: string;
+}
+
+export interface Body_text_to_speech_endpoint_api_text_to_speech_post {
+  text: string;
+  voice?: string;
+}
+
+export interface Body_upload_documents_api_upload_post {
+  files: Blob[];
+}
+
+export interface ChatMessage {
+  message: string;
+}
+
+export interface ChatResponse {
+  response: string;
+  sources: { [key: string]: string }[];
+  timestamp: string;
+}
+
+export interface DocumentChunk {
+  chunk_index: number;
+  content: string;
+  source: string;
+  article?: string | null;
+}
+
+export interface DocumentContent {
+  document_id: string;
+  file_name: string;
+  file_size: number;
+  created_at: string;
+  status: string;
+  total_chunks: number;
+  full_content: string;
+  raw_chunks?: DocumentChunk[] | null;
+}
+
+export interface DocumentDetails {
+  document_id: string;
+  file_name: string;
+  file_size: number;
+  created_at: string;
+  status: string;
+  chunks_count: number;
+  metadata: { [key: string]: unknown };
+  weaviate_chunks: number;
+}
+
+export interface DocumentInfo {
+  id: string;
+  file_name: string;
+  file_size: number;
+  created_at: string;
+  status: string;
+  chunks_count?: number | null;
+}
+
+export interface HTTPValidationError {
+  detail?: ValidationError[];
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+export interface LoginResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  email: string;
+}
+
+export interface UploadResponse {
+  status: string;
+  message: string;
+  files_processed: number;
+  session_id: string;
+}
+
+export interface ValidationError {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+export const createApiClient = (http: AxiosInstance) => ({
+  /** GET / — Root */
+  root: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/', config)).data,
+
+  /** GET /health — Health Check */
+  healthCheck: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/health', config)).data,
+
+  /** POST /api/upload — Upload Documents — body: Body_upload_documents_api_upload_post */
+  uploadDocuments: async (body: FormData, config?: AxiosRequestConfig): Promise<UploadResponse> =>
+    (await http.post<UploadResponse>('/api/upload', body, config)).data,
+
+  /** POST /api/login — Login */
+  login: async (body: LoginRequest, config?: AxiosRequestConfig): Promise<LoginResponse> =>
+    (await http.post<LoginResponse>('/api/login', body, config)).data,
+
+  /** POST /api/chat — Chat With Documents */
+  chatWithDocuments: async (body: ChatMessage, config?: AxiosRequestConfig): Promise<ChatResponse> =>
+    (await http.post<ChatResponse>('/api/chat', body, config)).data,
+
+  /** POST /api/chat/stream — Chat With Documents Stream */
+  chatWithDocumentsStream: async <T = unknown>(body: ChatMessage, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.post<T>('/api/chat/stream', body, config)).data,
+
+  /** GET /api/upload/progress/{session_id} — Get Upload Progress */
+  getUploadProgress: async <T = unknown>(sessionId: string, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>(`/api/upload/progress/${encodeURIComponent(sessionId)}`, config)).data,
+
+  /** GET /api/upload/sessions — Get Recent Upload Sessions */
+  getRecentUploadSessions: async <T = unknown>(query?: { limit?: number }, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/api/upload/sessions', { ...config, params: query })).data,
+
+  /** GET /api/documents — List Documents */
+  listDocuments: async (config?: AxiosRequestConfig): Promise<DocumentInfo[]> =>
+    (await http.get<DocumentInfo[]>('/api/documents', config)).data,
+
+  /** DELETE /api/documents — Clear All Documents */
+  clearAllDocuments: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.delete<T>('/api/documents', config)).data,
+
+  /** GET /api/documents/{document_id}/content — Get Document Content */
+  getDocumentContent: async (documentId: string, query?: { show_chunks?: boolean }, config?: AxiosRequestConfig): Promise<DocumentContent> =>
+    (await http.get<DocumentContent>(`/api/documents/${encodeURIComponent(documentId)}/content`, { ...config, params: query })).data,
+
+  /** GET /api/documents/{document_id}/info — Get Document Details */
+  getDocumentDetails: async (documentId: string, config?: AxiosRequestConfig): Promise<DocumentDetails> =>
+    (await http.get<DocumentDetails>(`/api/documents/${encodeURIComponent(documentId)}/info`, config)).data,
+
+  /** DELETE /api/documents/{document_id} — Remove Document */
+  removeDocument: async <T = unknown>(documentId: string, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.delete<T>(`/api/documents/${encodeURIComponent(documentId)}`, config)).data,
+
+  /** GET /api/chat/history — Get Chat History */
+  getChatHistory: async <T = unknown>(query?: { limit?: number }, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/api/chat/history', { ...config, params: query })).data,
+
+  /** DELETE /api/chat/history — Clear Chat History */
+  clearChatHistory: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.delete<T>('/api/chat/history', config)).data,
+
+  /** GET /api/stats — Get System Stats */
+  getSystemStats: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/api/stats', config)).data,
+
+  /** POST /api/speech-to-speech — Speech To Speech Endpoint — body: Body_speech_to_speech_endpoint_api_speech_to_speech_post */
+  speechToSpeechEndpoint: async <T = unknown>(body: FormData, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.post<T>('/api/speech-to-speech', body, config)).data,
+
+  /** POST /api/text-to-speech — Text To Speech Endpoint — body: Body_text_to_speech_endpoint_api_text_to_speech_post */
+  textToSpeechEndpoint: async <T = unknown>(body: FormData, config?: AxiosRequestConfig): Promise<T> =>
+    (await http.post<T>('/api/text-to-speech', body, config)).data,
+
+  /** GET /api/speech/voices — Get Speech Voices */
+  getSpeechVoices: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/api/speech/voices', config)).data,
+
+  /** POST /api/admin/clear-cache — Clear System Cache */
+  clearSystemCache: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.post<T>('/api/admin/clear-cache', undefined, config)).data,
+
+  /** GET /api/admin/cache-status — Get Cache Status */
+  getCacheStatus: async <T = unknown>(config?: AxiosRequestConfig): Promise<T> =>
+    (await http.get<T>('/api/admin/cache-status', config)).data,
+});
+
+export type ApiClient = ReturnType<typeof createApiClient>;
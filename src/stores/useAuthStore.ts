@@ -1,22 +1,73 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { User, LoginRequest } from '../types';
-import { authService } from '../services/api';
+import type { User, LoginRequest, AdminRole } from '../types';
+import { authService, setUnauthorizedHandler } from '../services/api';
+import { getToken, setToken, clearToken, onExternalTokenChange } from '../services/authToken';
+import { decodeJwtClaims, getTokenExpiry } from '../utils/jwt';
+
+// 'expiring' shows a warning before the token lapses; 'expired' requires re-login
+export type SessionStatus = 'active' | 'expiring' | 'expired';
 
 interface AuthState {
   user: User | null;
+  sessionStatus: SessionStatus;
+  // Persisted session restored and reconciled with the stored token
+  isInitialized: boolean;
   isLoading: boolean;
   error: string | null;
   login: (credentials: LoginRequest) => Promise<void>;
   logout: () => void;
   clearError: () => void;
   initializeAuth: () => void;
+  checkSession: () => void;
+  expireSession: () => void;
 }
 
+export const SESSION_WARNING_MS = 2 * 60 * 1000;
+
+// setTimeout overflows past ~24.8 days; longer delays are re-checked
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+let warningTimer: ReturnType<typeof setTimeout> | undefined;
+let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+const clearSessionTimers = () => {
+  clearTimeout(warningTimer);
+  clearTimeout(expiryTimer);
+};
+
+const ROLE_RANK: Record<AdminRole, number> = { viewer: 0, editor: 1 };
+const VIEWER_CLAIMS = ['viewer', 'readonly', 'read_only', 'read-only'];
+const EDITOR_CLAIMS = ['editor', 'admin', 'superadmin'];
+
+// Reads role/roles/scope claims; tokens without any role claim predate roles
+// and keep full access
+const roleFromToken = (token: string | null): AdminRole => {
+  const claims = decodeJwtClaims(token);
+  const values = [
+    claims?.role,
+    ...(Array.isArray(claims?.roles) ? claims.roles : []),
+    ...(typeof claims?.scope === 'string' ? claims.scope.split(' ') : []),
+  ]
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => value.toLowerCase());
+
+  if (values.some((value) => EDITOR_CLAIMS.includes(value))) return 'editor';
+  if (values.some((value) => VIEWER_CLAIMS.includes(value))) return 'viewer';
+  return 'editor';
+};
+
+export const hasRole = (user: User | null | undefined, required: AdminRole): boolean => {
+  if (!user?.isAuthenticated) return false;
+  return ROLE_RANK[user.role ?? roleFromToken(getToken())] >= ROLE_RANK[required];
+};
+
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
+      sessionStatus: 'active',
+      isInitialized: false,
       isLoading: false,
       error: null,
 
@@ -24,14 +75,18 @@ export const useAuthStore = create<AuthState>()(
         set({ isLoading: true, error: null });
         try {
           const response = await authService.login(credentials);
+          // Prefer the token's own exp claim; expires_in is relative to the response
+          const expiresAt = getTokenExpiry(response.access_token) ?? Date.now() + response.expires_in * 1000;
           const user: User = {
             email: response.email,
-            token: response.access_token,
             isAuthenticated: true,
+            expiresAt,
+            role: roleFromToken(response.access_token),
           };
-          
-          localStorage.setItem('token', response.access_token);
+
+          setToken(response.access_token);
           set({ user, isLoading: false });
+          get().checkSession();
         } catch (error: any) {
           const errorMessage = error.response?.data?.detail || 'Login failed';
           set({ error: errorMessage, isLoading: false });
@@ -40,8 +95,9 @@ export const useAuthStore = create<AuthState>()(
       },
 
       logout: () => {
-        localStorage.removeItem('token');
-        set({ user: null, error: null });
+        clearSessionTimers();
+        clearToken();
+        set({ user: null, error: null, sessionStatus: 'active' });
       },
 
       clearError: () => {
@@ -49,21 +105,56 @@ export const useAuthStore = create<AuthState>()(
       },
 
       initializeAuth: () => {
-        const token = localStorage.getItem('token');
-        const userData = localStorage.getItem('auth-storage');
-        
-        if (token && userData) {
-          try {
-            const { state } = JSON.parse(userData);
-            if (state?.user) {
-              set({ user: state.user });
-            }
-          } catch (error) {
-            console.error('Failed to initialize auth:', error);
-            localStorage.removeItem('token');
-            localStorage.removeItem('auth-storage');
-          }
+        const { user } = get();
+        const token = getToken();
+
+        if (user && !token) {
+          // Signed out elsewhere; the persisted user can no longer call the API
+          set({ user: null });
+        } else if (user && token) {
+          // Rebuilt field by field so a token persisted by older versions is dropped
+          set({
+            user: {
+              email: user.email,
+              isAuthenticated: user.isAuthenticated,
+              expiresAt: user.expiresAt ?? getTokenExpiry(token) ?? undefined,
+              role: user.role ?? roleFromToken(token),
+            },
+          });
         }
+
+        get().checkSession();
+        set({ isInitialized: true });
+      },
+
+      // Recompute the session status and schedule the next warning/expiry check
+      checkSession: () => {
+        clearSessionTimers();
+        const { user } = get();
+        const expiresAt = user?.expiresAt ?? getTokenExpiry(getToken());
+        if (!user || !expiresAt) {
+          set({ sessionStatus: 'active' });
+          return;
+        }
+
+        const remaining = expiresAt - Date.now();
+        if (remaining <= 0) {
+          set({ sessionStatus: 'expired' });
+          return;
+        }
+
+        set({ sessionStatus: remaining <= SESSION_WARNING_MS ? 'expiring' : 'active' });
+        if (remaining > SESSION_WARNING_MS) {
+          warningTimer = setTimeout(get().checkSession, Math.min(remaining - SESSION_WARNING_MS, MAX_TIMER_DELAY));
+        }
+        expiryTimer = setTimeout(get().checkSession, Math.min(remaining, MAX_TIMER_DELAY));
+      },
+
+      // The server rejected the token; keep the user so the dashboard survives re-login
+      expireSession: () => {
+        if (!get().user) return;
+        clearSessionTimers();
+        set({ sessionStatus: 'expired' });
       },
     }),
     {
@@ -71,4 +162,19 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({ user: state.user }),
     }
   )
-); 
\ No newline at end of file
+);
+
+// Admin requests rejected with 401 open the re-login modal instead of redirecting
+setUnauthorizedHandler(() => useAuthStore.getState().expireSession());
+
+// Keep dashboard tabs in step: a logout elsewhere signs this tab out, a login
+// or re-login elsewhere adopts that tab's session
+onExternalTokenChange(async (token) => {
+  const { user, logout } = useAuthStore.getState();
+  if (!token) {
+    if (user) logout();
+    return;
+  }
+  await useAuthStore.persist.rehydrate();
+  useAuthStore.getState().initializeAuth();
+});
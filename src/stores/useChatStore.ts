@@ -1,414 +1,525 @@
 import { create } from 'zustand';
-import type { ChatHistoryItem, ChatMessage, ChatResponse } from '../types';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import type { ChatHistoryItem, ChatMessage, ChatSource } from '../types';
 import { chatService } from '../services/api';
-import { flushSync } from 'react-dom';
+import { getConfig } from '../services/config';
+import { getToken } from '../services/authToken';
+import { readChatStream } from '../services/chatStream';
+import { generateId, truncateText } from '../utils';
 
-interface SimpleMessage {
+export interface SimpleMessage {
   id: string;
   content: string;
   role: 'user' | 'assistant';
   timestamp: Date;
+  sources?: ChatSource[];
+  // Set when the user stopped generation before the answer was complete
+  interrupted?: boolean;
+  // Regenerated answers; the active one is mirrored into the fields above
+  variants?: AnswerVariant[];
+  variantIndex?: number;
+}
+
+export type AnswerVariant = Pick<SimpleMessage, 'content' | 'sources' | 'interrupted' | 'timestamp'>;
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: SimpleMessage[];
 }
 
 interface ChatState {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  // Messages of the active conversation
   messages: SimpleMessage[];
   isLoading: boolean;
   isTyping: boolean;
   streamingMessage: string;
   isStreaming: boolean;
   error: string | null;
-  addMessage: (message: { content: string; role: 'user' | 'assistant' }) => void;
+  // Server history paging
+  historyLimit: number;
+  hasMoreHistory: boolean;
+  isHistoryLoading: boolean;
+  addMessage: (message: Pick<SimpleMessage, 'content' | 'role' | 'sources' | 'interrupted'>, conversationId?: string) => void;
   sendMessage: (message: string) => Promise<void>;
   sendMessageStream: (message: string) => Promise<void>;
+  stopGeneration: () => void;
+  regenerateLastAnswer: () => Promise<void>;
+  selectVariant: (messageId: string, variantIndex: number) => void;
   loadChatHistory: () => Promise<void>;
+  loadOlderHistory: () => Promise<void>;
+  clearChatHistory: () => Promise<void>;
   clearMessages: () => void;
   clearError: () => void;
+
+  // Conversations
+  newConversation: () => void;
+  switchConversation: (conversationId: string) => void;
+  renameConversation: (conversationId: string, title: string) => void;
+  deleteConversation: (conversationId: string) => void;
 }
 
-export const useChatStore = create<ChatState>((set, get) => ({
-  messages: [],
-  isLoading: false,
-  isTyping: false,
-  streamingMessage: '',
-  isStreaming: false,
-  error: null,
-
-  addMessage: (message) => {
-    const newMessage: SimpleMessage = {
-      id: Date.now().toString(),
-      content: message.content,
-      role: message.role,
-      timestamp: new Date(),
-    };
-    
-    set((state) => ({
-      messages: [...state.messages, newMessage],
-    }));
-  },
-
-  sendMessage: async (messageText) => {
-    // Use streaming instead of regular message
-    await get().sendMessageStream(messageText);
-  },
-
-  sendMessageStream: async (messageText) => {
-    set({ isLoading: true, isStreaming: true, error: null, streamingMessage: '' });
-
-    // Add user message immediately
-    get().addMessage({ content: messageText, role: 'user' });
+export const DEFAULT_CONVERSATION_TITLE = 'Yeni sohbet';
+const MAX_TITLE_LENGTH = 48;
 
-    try {
-      const chatMessage: ChatMessage = { message: messageText };
-      
-      // Get stream from API
-      const stream = await chatService.sendMessageStream(chatMessage);
-      
-      // Set up stream reading
-      const reader = stream.getReader();
-      const decoder = new TextDecoder();
-      let fullResponse = '';
-      let hasAddedFinalMessage = false;
-      let buffer = ''; // Buffer for incomplete chunks
-      let lastUpdateLength = 0; // Track if content actually changed
-      
-      // Helper function to decode escape sequences
-      const decodeEscapeSequences = (str: string): string => {
-        return str
-          .replace(/\\n/g, '\n')
-          .replace(/\\r/g, '\r')
-          .replace(/\\t/g, '\t')
-          .replace(/\\u([0-9a-fA-F]{4})/g, (match, code) => 
-            String.fromCharCode(parseInt(code, 16))
-          )
-          .replace(/\\"/g, '"')
-          .replace(/\\\\/g, '\\');
-      };
-      
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          // Process any remaining buffer
-          if (buffer.trim()) {
-            try {
-              const data = JSON.parse(buffer);
-              if (data.type === 'content' && data.content) {
-                fullResponse += data.content;
-              }
-            } catch (e) {
-              // JSON parse edilemiyorsa, buffer'ı direkt ekle
-              fullResponse += buffer;
-              console.warn('Failed to parse final buffer, added as raw:', buffer);
-            }
-          }
-          
-          // Final update with complete content
-          const finalContent = decodeEscapeSequences(fullResponse);
-          set({ streamingMessage: finalContent });
-          
-          // Ensure final message is added only once
-          if (finalContent.trim() && !hasAddedFinalMessage) {
-            get().addMessage({ 
-              content: finalContent, 
-              role: 'assistant' 
-            });
-            hasAddedFinalMessage = true;
-          }
-          
-          // Delay clearing streaming state to allow UI to render the final message
-          setTimeout(() => {
-            set({ 
-              isLoading: false,
-              isStreaming: false, 
-              streamingMessage: '' 
-            });
-          }, 100);
-          break;
-        }
-        
-        // Decode the chunk and add to buffer
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
-        
-        // Split by lines and process each line
-        const lines = buffer.split('\n');
-        
-        // Keep the last line in buffer if it's incomplete
-        buffer = lines.pop() || '';
-        
-        for (const line of lines) {
-          const trimmedLine = line.trim();
-          
-          // Skip empty lines
-          if (!trimmedLine) continue;
-          
-          // Handle SSE format: "data: {...}"
-          if (trimmedLine.startsWith('data: ')) {
-            const jsonData = trimmedLine.substring(6); // Remove "data: " prefix
-            
-            // Handle [DONE] message
-            if (jsonData === '[DONE]') {
-              continue;
-            }
-            
-            try {
-              const data = JSON.parse(jsonData);
-              
-              // Handle content chunks
-              if (data.type === 'content' && data.content !== undefined && !data.done) {
-                // Check if content is double-encoded JSON string
-                let actualContent = data.content;
-                
-                // Try to parse content as JSON if it's a string containing JSON
-                if (typeof data.content === 'string' && data.content.includes('"type":')) {
-                  try {
-                    const parsedContent = JSON.parse(data.content);
-                    if (parsedContent.type === 'content' && parsedContent.content !== undefined) {
-                      actualContent = parsedContent.content;
-                    }
-                  } catch (e) {
-                    // If parsing fails, use the original content
-                    actualContent = data.content;
-                  }
-                }
-                
-                // Skip if actualContent looks like raw JSON
-                if (typeof actualContent === 'string' && actualContent.startsWith('{"type"')) {
-                  continue;
-                }
-                
-                fullResponse += actualContent;
-                
-                // Only set loading to false once we start getting content
-                if (fullResponse.length > 0) {
-                  set({ isLoading: false });
-                }
-                
-                // Only update if content actually changed
-                if (fullResponse.length !== lastUpdateLength) {
-                  set({ streamingMessage: decodeEscapeSequences(fullResponse) });
-                  lastUpdateLength = fullResponse.length;
-                }
-              } 
-              // Handle completion
-              else if (data.type === 'complete' && data.done) {
-                // Use the complete response if provided, otherwise use accumulated response
-                if (data.full_response) {
-                  // Check if full_response is double-encoded JSON string
-                  let actualResponse = data.full_response;
-                  
-                  // Try to parse full_response as JSON if it contains streaming data
-                  if (typeof data.full_response === 'string' && data.full_response.includes('"type":')) {
-                    try {
-                      // Check if this is the first complete chunk (clean response)
-                      if (data.full_response.includes('"full_response":')) {
-                        // This is the first complete chunk, extract the clean response
-                        const regex = /"full_response":\s*"([^"\\]*(?:\\.[^"\\]*)*)"/;
-                        const match = data.full_response.match(regex);
-                        if (match && match[1]) {
-                          actualResponse = decodeEscapeSequences(match[1]);
-                        }
-                      } else {
-                        // This is the second complete chunk with concatenated JSON strings
-                        // Extract the actual full_response from this chunk
-                        try {
-                          // Find the last "full_response" field in the concatenated JSON
-                          const fullResponseMatch = data.full_response.match(/"full_response":\s*"([^"\\]*(?:\\.[^"\\]*)*)"/g);
-                          if (fullResponseMatch && fullResponseMatch.length > 0) {
-                            // Take the last full_response (the complete one)
-                            const lastFullResponse = fullResponseMatch[fullResponseMatch.length - 1];
-                            const match = lastFullResponse.match(/"full_response":\s*"([^"\\]*(?:\\.[^"\\]*)*)"/);
-                            if (match && match[1]) {
-                              actualResponse = decodeEscapeSequences(match[1]);
-                            }
-                          }
-                        } catch (e) {
-                          console.warn('Failed to parse second complete chunk:', e);
-                          // If parsing fails, use the accumulated response
-                          continue;
-                        }
-                      }
-                    } catch (e) {
-                      // If parsing fails, use the original response
-                      actualResponse = data.full_response;
-                    }
-                  }
-                  
-                  fullResponse = actualResponse;
-                  // --- DÜZELTME: Son complete chunk'tan sonra streamingMessage'i güncelle ---
-                  set({ streamingMessage: decodeEscapeSequences(fullResponse) });
-                }
-                
-                // Don't add message here, let the done handler do it
-                set({ isLoading: false });
-                break;
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse streaming JSON:', jsonData, parseError);
-              // Continue processing other lines
+const createConversation = (): Conversation => {
+  const now = new Date();
+  return {
+    id: generateId(),
+    title: DEFAULT_CONVERSATION_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+};
+
+// Title a conversation after its first question
+const titleFromQuestion = (question: string): string =>
+  truncateText(question.replace(/\s+/g, ' ').trim(), MAX_TITLE_LENGTH) || DEFAULT_CONVERSATION_TITLE;
+
+const findMessages = (conversations: Conversation[], conversationId: string | null): SimpleMessage[] =>
+  conversations.find((c) => c.id === conversationId)?.messages ?? [];
+
+const toVariant = (message: SimpleMessage): AnswerVariant => ({
+  content: message.content,
+  sources: message.sources,
+  interrupted: message.interrupted,
+  timestamp: message.timestamp,
+});
+
+// Apply fn to one message of a conversation and keep `messages` in sync
+const updateMessage = (
+  conversations: Conversation[],
+  activeConversationId: string | null,
+  conversationId: string,
+  messageId: string,
+  fn: (message: SimpleMessage) => SimpleMessage
+): Pick<ChatState, 'conversations' | 'messages'> => {
+  const updated = conversations.map((c) =>
+    c.id === conversationId
+      ? { ...c, updatedAt: new Date(), messages: c.messages.map((m) => (m.id === messageId ? fn(m) : m)) }
+      : c
+  );
+  return { conversations: updated, messages: findMessages(updated, activeConversationId) };
+};
+
+interface GeneratedAnswer {
+  content: string;
+  sources: ChatSource[];
+  interrupted: boolean;
+}
+
+// Only one answer is generated at a time; stopGeneration aborts it
+let activeController: AbortController | null = null;
+
+const FALLBACK_ANSWER = 'Üzgünüm, şu anda yanıt veremiyorum. Lütfen daha sonra tekrar deneyin.';
+
+// Stream an answer, falling back to the non-streaming endpoint on failure or
+// when streaming is turned off in the runtime config.
+// An aborted request resolves with whatever was received so far.
+const runGeneration = async (
+  messageText: string,
+  set: (partial: Partial<ChatState>) => void
+): Promise<GeneratedAnswer> => {
+  const controller = new AbortController();
+  activeController = controller;
+  set({ isLoading: true, isStreaming: true, error: null, streamingMessage: '' });
+
+  const chatMessage: ChatMessage = { message: messageText };
+  let fullResponse = '';
+  let sources: ChatSource[] = [];
+
+  try {
+    if (getConfig().features.streaming) {
+      try {
+        // Get stream from API
+        const stream = await chatService.sendMessageStream(chatMessage, controller.signal);
+
+        for await (const event of readChatStream(stream)) {
+          if (event.type === 'content') {
+            if (!event.content) continue;
+            fullResponse += event.content;
+
+            // Only set loading to false once we start getting content
+            set({ isLoading: false, streamingMessage: fullResponse });
+          } else if (event.type === 'complete') {
+            // Prefer the server's complete response over the accumulated chunks
+            if (event.fullResponse) {
+              fullResponse = event.fullResponse;
+              set({ streamingMessage: fullResponse });
             }
-          }
-          // Handle lines that don't start with "data: " (might be direct JSON)
-          else if (trimmedLine.startsWith('{') && trimmedLine.endsWith('}')) {
-            try {
-              const data = JSON.parse(trimmedLine);
-              
-              if (data.type === 'content' && data.content !== undefined && !data.done) {
-                // Check if content is double-encoded JSON string
-                let actualContent = data.content;
-                
-                // Try to parse content as JSON if it's a string containing JSON
-                if (typeof data.content === 'string' && data.content.includes('"type":')) {
-                  try {
-                    const parsedContent = JSON.parse(data.content);
-                    if (parsedContent.type === 'content' && parsedContent.content !== undefined) {
-                      actualContent = parsedContent.content;
-                    }
-                  } catch (e) {
-                    // If parsing fails, use the original content
-                    actualContent = data.content;
-                  }
-                }
-                
-                // Skip if actualContent looks like raw JSON
-                if (typeof actualContent === 'string' && actualContent.startsWith('{"type"')) {
-                  continue;
-                }
-                
-                fullResponse += actualContent;
-                
-                if (fullResponse.length > 0) {
-                  set({ isLoading: false });
-                }
-                
-                // Only update if content actually changed
-                if (fullResponse.length !== lastUpdateLength) {
-                  set({ streamingMessage: decodeEscapeSequences(fullResponse) });
-                  lastUpdateLength = fullResponse.length;
-                }
-              } 
-              else if (data.type === 'complete' && data.done) {
-                if (data.full_response) {
-                  // Check if full_response is double-encoded JSON string
-                  let actualResponse = data.full_response;
-                  
-                  // Try to parse full_response as JSON if it contains streaming data
-                  if (typeof data.full_response === 'string' && data.full_response.includes('"type":')) {
-                    try {
-                      // Check if this is the first complete chunk (clean response)
-                      if (data.full_response.includes('"full_response":')) {
-                        // This is the first complete chunk, extract the clean response
-                        const regex = /"full_response":\s*"([^"\\]*(?:\\.[^"\\]*)*)"/;
-                        const match = data.full_response.match(regex);
-                        if (match && match[1]) {
-                          actualResponse = decodeEscapeSequences(match[1]);
-                        }
-                      } else {
-                        // This is the second complete chunk with concatenated JSON strings
-                        // Extract the actual full_response from this chunk
-                        try {
-                          // Find the last "full_response" field in the concatenated JSON
-                          const fullResponseMatch = data.full_response.match(/"full_response":\s*"([^"\\]*(?:\\.[^"\\]*)*)"/g);
-                          if (fullResponseMatch && fullResponseMatch.length > 0) {
-                            // Take the last full_response (the complete one)
-                            const lastFullResponse = fullResponseMatch[fullResponseMatch.length - 1];
-                            const match = lastFullResponse.match(/"full_response":\s*"([^"\\]*(?:\\.[^"\\]*)*)"/);
-                            if (match && match[1]) {
-                              actualResponse = decodeEscapeSequences(match[1]);
-                            }
-                          }
-                        } catch (e) {
-                          console.warn('Failed to parse second complete chunk:', e);
-                          // If parsing fails, use the accumulated response
-                          continue;
-                        }
-                      }
-                    } catch (e) {
-                      // If parsing fails, use the original response
-                      actualResponse = data.full_response;
-                    }
-                  }
-                  
-                  fullResponse = actualResponse;
-                }
-                
-                // Don't add message here, let the done handler do it
-                set({ isLoading: false });
-                break;
-              }
-            } catch (parseError) {
-              console.warn('Failed to parse direct JSON:', trimmedLine, parseError);
+            // The nested complete event carries no sources, the outer one does
+            if (event.sources.length > 0) {
+              sources = event.sources;
             }
+            set({ isLoading: false });
+          } else if (event.type === 'error') {
+            throw new Error(event.message);
+          } else if (event.type === 'unknown') {
+            console.warn('Unknown stream event:', event.data);
           }
         }
+
+        return { content: fullResponse, sources, interrupted: false };
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return { content: fullResponse, sources, interrupted: true };
+        }
+
+        console.error('Streaming error:', error);
       }
-      
-    } catch (error) {
-      console.error('Streaming error:', error);
-      
-      // Fallback to regular API if streaming fails
-      try {
-        const response = await chatService.sendMessage({ message: messageText });
-        get().addMessage({ 
-          content: response.response, 
-          role: 'assistant' 
-        });
-      } catch (fallbackError) {
-        console.error('Fallback API also failed:', fallbackError);
-        set({ 
-          error: 'Mesaj gönderilemedi. Lütfen tekrar deneyin.',
-        });
-        
-        get().addMessage({ 
-          content: 'Üzgünüm, şu anda yanıt veremiyorum. Lütfen daha sonra tekrar deneyin.', 
-          role: 'assistant' 
-        });
-      }
-      
-      set({ 
-        isLoading: false,
-        isStreaming: false,
-        streamingMessage: ''
-      });
-    } finally {
-      // Final cleanup to ensure states are reset
-      set({ 
-        isLoading: false,
-        isStreaming: false
-      });
     }
-  },
 
-  loadChatHistory: async () => {
+    // Regular API when streaming is disabled or failed
     try {
-      const response = await chatService.getChatHistory();
-      const formattedMessages: SimpleMessage[] = response.map((item) => [
-        {
-          id: `${item.id}-user`,
-          content: item.message,
-          role: 'user' as const,
-          timestamp: new Date(item.timestamp),
-        },
-        {
-          id: `${item.id}-assistant`,
-          content: item.response,
-          role: 'assistant' as const,
-          timestamp: new Date(item.timestamp),
-        },
-      ]).flat();
-
-      set({ messages: formattedMessages });
-    } catch (error) {
-      console.error('Error loading chat history:', error);
-      set({ error: 'Chat geçmişi yüklenemedi' });
+      const response = await chatService.sendMessage(chatMessage, controller.signal);
+      return { content: response.response, sources: response.sources, interrupted: false };
+    } catch (fallbackError) {
+      if (controller.signal.aborted) {
+        return { content: '', sources: [], interrupted: true };
+      }
+
+      console.error('Fallback API also failed:', fallbackError);
+      set({ error: 'Mesaj gönderilemedi. Lütfen tekrar deneyin.' });
+      return { content: FALLBACK_ANSWER, sources: [], interrupted: false };
+    }
+  } finally {
+    if (activeController === controller) activeController = null;
+
+    // Final cleanup to ensure states are reset
+    set({ isLoading: false, isStreaming: false, streamingMessage: '' });
+  }
+};
+
+// Server-side history (/api/chat/history) is shown as its own conversation
+export const HISTORY_CONVERSATION_ID = 'server-history';
+const HISTORY_CONVERSATION_TITLE = 'Önceki sohbetler';
+const HISTORY_PAGE_SIZE = 50;
+
+const byTimestamp = (a: SimpleMessage, b: SimpleMessage) => a.timestamp.getTime() - b.timestamp.getTime();
+
+const historyToMessages = (items: ChatHistoryItem[]): SimpleMessage[] =>
+  items.flatMap((item) => [
+    {
+      id: `${item.id}-user`,
+      content: item.message,
+      role: 'user' as const,
+      timestamp: new Date(item.timestamp),
+    },
+    {
+      id: `${item.id}-assistant`,
+      content: item.response,
+      role: 'assistant' as const,
+      timestamp: new Date(item.timestamp),
+      sources: item.sources,
+    },
+  ]);
+
+const pairKey = (question: string, answer: string) => `${question.trim()}\u0000${answer.trim()}`;
+
+// Question/answer pairs already held locally. The server logs every answer,
+// including the ones asked from this browser.
+const localPairKeys = (conversations: Conversation[]): Set<string> => {
+  const keys = new Set<string>();
+  conversations.forEach((c) => {
+    c.messages.forEach((message, index) => {
+      const question = c.messages[index - 1];
+      if (message.role !== 'assistant' || question?.role !== 'user') return;
+      (message.variants ?? [message]).forEach((variant) => keys.add(pairKey(question.content, variant.content)));
+    });
+  });
+  return keys;
+};
+
+// Fetch the newest `limit` history items and merge them into the history
+// conversation without duplicating anything already shown locally. The API
+// only supports `limit`, so older pages are loaded by asking for more.
+const fetchHistory = async (
+  limit: number,
+  set: (partial: Partial<ChatState>) => void,
+  get: () => ChatState
+): Promise<void> => {
+  // History belongs to the signed-in user
+  if (!getToken()) return;
+
+  set({ isHistoryLoading: true });
+  try {
+    const items = await chatService.getChatHistory(limit);
+    const { conversations, activeConversationId } = get();
+    const existing = conversations.find((c) => c.id === HISTORY_CONVERSATION_ID);
+    const knownIds = new Set(existing?.messages.map((m) => m.id));
+    const knownPairs = localPairKeys(conversations);
+
+    const fresh = items.filter(
+      (item) => !knownIds.has(`${item.id}-user`) && !knownPairs.has(pairKey(item.message, item.response))
+    );
+    const merged = [...(existing?.messages ?? []), ...historyToMessages(fresh)].sort(byTimestamp);
+
+    let updated = conversations;
+    if (merged.length > 0) {
+      const conversation: Conversation = {
+        id: HISTORY_CONVERSATION_ID,
+        title: existing?.title ?? HISTORY_CONVERSATION_TITLE,
+        createdAt: merged[0].timestamp,
+        updatedAt: merged[merged.length - 1].timestamp,
+        messages: merged,
+      };
+      updated = existing
+        ? conversations.map((c) => (c.id === HISTORY_CONVERSATION_ID ? conversation : c))
+        : [...conversations, conversation];
     }
-  },
 
-  clearMessages: () => {
-    set({ messages: [] });
-  },
+    set({
+      conversations: updated,
+      messages: findMessages(updated, activeConversationId),
+      historyLimit: limit,
+      hasMoreHistory: items.length >= limit,
+      isHistoryLoading: false,
+    });
+  } catch (error) {
+    console.error('Error loading chat history:', error);
+    set({ error: 'Chat geçmişi yüklenemedi', isHistoryLoading: false });
+  }
+};
+
+// Dates are persisted as ISO strings; turn them back into Date objects
+const DATE_KEYS = new Set(['timestamp', 'createdAt', 'updatedAt']);
+
+export const useChatStore = create<ChatState>()(
+  persist(
+    (set, get) => ({
+      conversations: [],
+      activeConversationId: null,
+      messages: [],
+      isLoading: false,
+      isTyping: false,
+      streamingMessage: '',
+      isStreaming: false,
+      error: null,
+      historyLimit: 0,
+      hasMoreHistory: false,
+      isHistoryLoading: false,
+
+      addMessage: (message, conversationId) => {
+        const newMessage: SimpleMessage = {
+          id: generateId(),
+          content: message.content,
+          role: message.role,
+          timestamp: new Date(),
+          sources: message.sources,
+          interrupted: message.interrupted,
+        };
+
+        let { conversations, activeConversationId } = get();
+        let targetId = conversationId ?? activeConversationId;
+
+        // Start a conversation on the first message
+        if (!targetId || !conversations.some((c) => c.id === targetId)) {
+          const conversation = createConversation();
+          conversations = [conversation, ...conversations];
+          targetId = conversation.id;
+          activeConversationId = activeConversationId ?? conversation.id;
+        }
+
+        const updated = conversations.map((c) => {
+          if (c.id !== targetId) return c;
+          const isFirstQuestion = message.role === 'user' && !c.messages.some((m) => m.role === 'user');
+          return {
+            ...c,
+            title: isFirstQuestion && c.title === DEFAULT_CONVERSATION_TITLE ? titleFromQuestion(message.content) : c.title,
+            updatedAt: newMessage.timestamp,
+            messages: [...c.messages, newMessage],
+          };
+        });
+
+        set({
+          conversations: updated,
+          activeConversationId,
+          messages: findMessages(updated, activeConversationId),
+        });
+      },
+
+      sendMessage: async (messageText) => {
+        // Use streaming instead of regular message
+        await get().sendMessageStream(messageText);
+      },
+
+      sendMessageStream: async (messageText) => {
+        // Add user message immediately
+        get().addMessage({ content: messageText, role: 'user' });
+
+        // Keep the answer in this conversation even if the user switches away
+        const conversationId = get().activeConversationId ?? undefined;
+
+        const answer = await runGeneration(messageText, set);
+
+        if (answer.content.trim()) {
+          get().addMessage({ 
+            content: answer.content, 
+            role: 'assistant',
+            sources: answer.sources,
+            interrupted: answer.interrupted,
+          }, conversationId);
+        }
+      },
+
+      stopGeneration: () => {
+        activeController?.abort();
+      },
+
+      regenerateLastAnswer: async () => {
+        const { activeConversationId, messages, isStreaming } = get();
+        if (!activeConversationId || isStreaming) return;
 
-  clearError: () => {
-    set({ error: null });
-  },
-})); 
\ No newline at end of file
+        const answerIndex = messages.map((m) => m.role).lastIndexOf('assistant');
+        const question = messages.slice(0, answerIndex).reverse().find((m) => m.role === 'user');
+        if (answerIndex === -1 || !question) return;
+
+        const previous = messages[answerIndex];
+        const answer = await runGeneration(question.content, set);
+        if (!answer.content.trim()) return;
+
+        const variants = [...(previous.variants ?? [toVariant(previous)]), {
+          content: answer.content,
+          sources: answer.sources,
+          interrupted: answer.interrupted,
+          timestamp: new Date(),
+        }];
+
+        set((state) => updateMessage(state.conversations, state.activeConversationId, activeConversationId, previous.id, (message) => ({
+          ...message,
+          ...variants[variants.length - 1],
+          variants,
+          variantIndex: variants.length - 1,
+        })));
+      },
+
+      selectVariant: (messageId, variantIndex) => {
+        const { activeConversationId } = get();
+        if (!activeConversationId) return;
+
+        set((state) => updateMessage(state.conversations, activeConversationId, activeConversationId, messageId, (message) => {
+          const variant = message.variants?.[variantIndex];
+          return variant ? { ...message, ...variant, variantIndex } : message;
+        }));
+      },
+
+      loadChatHistory: async () => {
+        await fetchHistory(HISTORY_PAGE_SIZE, set, get);
+      },
+
+      loadOlderHistory: async () => {
+        const { hasMoreHistory, isHistoryLoading, historyLimit } = get();
+        if (!hasMoreHistory || isHistoryLoading) return;
+        await fetchHistory(historyLimit + HISTORY_PAGE_SIZE, set, get);
+      },
+
+      clearChatHistory: async () => {
+        try {
+          await chatService.clearChatHistory();
+          const conversations = get().conversations.filter((c) => c.id !== HISTORY_CONVERSATION_ID);
+          const { activeConversationId } = get();
+          const nextActiveId = activeConversationId === HISTORY_CONVERSATION_ID ? null : activeConversationId;
+          set({
+            conversations,
+            activeConversationId: nextActiveId,
+            messages: findMessages(conversations, nextActiveId),
+            historyLimit: 0,
+            hasMoreHistory: false,
+          });
+        } catch (error) {
+          console.error('Error clearing chat history:', error);
+          set({ error: 'Chat geçmişi temizlenemedi' });
+        }
+      },
+
+      clearMessages: () => {
+        const { activeConversationId } = get();
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === activeConversationId ? { ...c, messages: [], updatedAt: new Date() } : c
+          ),
+          messages: [],
+        }));
+      },
+
+      clearError: () => {
+        set({ error: null });
+      },
+
+      // Conversations
+      newConversation: () => {
+        const { conversations, activeConversationId } = get();
+
+        // Reuse the active conversation if nothing has been asked in it yet
+        if (activeConversationId && findMessages(conversations, activeConversationId).length === 0) return;
+
+        const conversation = createConversation();
+        set({
+          conversations: [conversation, ...conversations],
+          activeConversationId: conversation.id,
+          messages: [],
+        });
+      },
+
+      switchConversation: (conversationId) => {
+        const { conversations } = get();
+        if (!conversations.some((c) => c.id === conversationId)) return;
+        set({
+          activeConversationId: conversationId,
+          messages: findMessages(conversations, conversationId),
+        });
+      },
+
+      renameConversation: (conversationId, title) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === conversationId ? { ...c, title: truncateText(trimmed, MAX_TITLE_LENGTH) } : c
+          ),
+        }));
+      },
+
+      deleteConversation: (conversationId) => {
+        const { conversations, activeConversationId } = get();
+        const remaining = conversations.filter((c) => c.id !== conversationId);
+
+        // Fall back to the most recently updated conversation
+        const nextActiveId = activeConversationId === conversationId
+          ? [...remaining].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())[0]?.id ?? null
+          : activeConversationId;
+
+        set({
+          conversations: remaining,
+          activeConversationId: nextActiveId,
+          messages: findMessages(remaining, nextActiveId),
+        });
+      },
+    }),
+    {
+      name: 'chat-storage',
+      storage: createJSONStorage(() => localStorage, {
+        reviver: (key, value) =>
+          DATE_KEYS.has(key) && typeof value === 'string' ? new Date(value) : value,
+      }),
+      partialize: (state) => ({
+        conversations: state.conversations,
+        activeConversationId: state.activeConversationId,
+      }),
+      merge: (persisted, current) => {
+        const { conversations = [], activeConversationId = null } = (persisted ?? {}) as Partial<ChatState>;
+        return {
+          ...current,
+          conversations,
+          activeConversationId,
+          messages: findMessages(conversations, activeConversationId),
+        };
+      },
+    }
+  )
+);
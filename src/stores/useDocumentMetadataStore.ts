@@ -0,0 +1,50 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { DocumentMetadata } from '../types';
+import { isEmptyMetadata } from '../utils/documentMetadata';
+
+// Admin notes on documents, kept in this browser only. The API exposes
+// DocumentDetails.metadata read-only and uploads take nothing but the files, so
+// notes never reach the backend: other admins and students don't see them.
+// In the dashboard they are merged over the document's own metadata. Entries
+// are keyed by file name because that is what the documents list carries.
+//
+// Only part of the metadata feature works until the backend changes. Showing
+// edited metadata next to chat sources needs an endpoint that stores it with
+// the document (or an upload field for it) and sources that carry it back.
+// MessageSources already reads whatever metadata a source carries.
+
+interface DocumentMetadataState {
+  byFileName: Record<string, DocumentMetadata>;
+  setMetadata: (fileName: string, metadata: DocumentMetadata) => void;
+  // Carry metadata over when a document is replaced by a differently named file
+  renameMetadata: (fromFileName: string, toFileName: string) => void;
+}
+
+export const useDocumentMetadataStore = create<DocumentMetadataState>()(
+  persist(
+    (set, get) => ({
+      byFileName: {},
+
+      setMetadata: (fileName, metadata) => {
+        const byFileName = { ...get().byFileName };
+        if (isEmptyMetadata(metadata)) {
+          delete byFileName[fileName];
+        } else {
+          byFileName[fileName] = metadata;
+        }
+        set({ byFileName });
+      },
+
+      renameMetadata: (fromFileName, toFileName) => {
+        const metadata = get().byFileName[fromFileName];
+        if (!metadata || fromFileName === toFileName || get().byFileName[toFileName]) return;
+        set({ byFileName: { ...get().byFileName, [toFileName]: metadata } });
+      },
+    }),
+    {
+      name: 'document-metadata-storage',
+      partialize: (state) => ({ byFileName: state.byFileName }),
+    }
+  )
+);
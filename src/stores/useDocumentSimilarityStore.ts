@@ -0,0 +1,78 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { documentService } from '../services/api';
+import { useDocumentStore } from './useDocumentStore';
+import { computeSignature } from '../utils/documentSimilarity';
+import type { DocumentInfo } from '../types';
+
+// MinHash signatures of processed documents, computed from their full content
+// once and kept per browser, so near-duplicates can be compared without
+// refetching every document. Computing one means downloading the document's
+// text, so scans only run when an admin starts one.
+
+interface DocumentSimilarityState {
+  signatures: Record<string, number[]>;
+  // Pairs the user has marked as not duplicates
+  dismissedPairs: string[];
+  isScanning: boolean;
+  scanDocuments: () => Promise<void>;
+  dismissPair: (key: string) => void;
+}
+
+// Processed documents the next scan would fingerprint
+export const getUnscannedDocuments = (documents: DocumentInfo[], signatures: Record<string, number[]>) =>
+  documents.filter((doc) => doc.status === 'processed' && !signatures[doc.id]);
+
+export const useDocumentSimilarityStore = create<DocumentSimilarityState>()(
+  persist(
+    (set, get) => ({
+      signatures: {},
+      dismissedPairs: [],
+      isScanning: false,
+
+      // Fingerprints listed documents that don't have a signature yet, one at a
+      // time. Documents added while the scan runs are picked up too. New
+      // signatures are stored together when the scan ends, so near-duplicate
+      // pairs are compared once per scan rather than after every document.
+      scanDocuments: async () => {
+        if (get().isScanning) return;
+        set({ isScanning: true });
+        const scanned: Record<string, number[]> = {};
+        const failed = new Set<string>();
+        try {
+          for (;;) {
+            const next = getUnscannedDocuments(useDocumentStore.getState().documents, get().signatures)
+              .find((doc) => !scanned[doc.id] && !failed.has(doc.id));
+            if (!next) break;
+            try {
+              const content = await documentService.getDocumentContent(next.id);
+              scanned[next.id] = computeSignature(content.full_content);
+            } catch (error) {
+              console.error('Failed to fingerprint document:', error);
+              failed.add(next.id);
+            }
+          }
+        } finally {
+          // Drop signatures of documents that have been deleted
+          const listed = new Set(useDocumentStore.getState().documents.map((doc) => doc.id));
+          const signatures = { ...get().signatures, ...scanned };
+          if (listed.size > 0) {
+            Object.keys(signatures).forEach((id) => {
+              if (!listed.has(id)) delete signatures[id];
+            });
+          }
+          set({ signatures, isScanning: false });
+        }
+      },
+
+      dismissPair: (key) => {
+        if (get().dismissedPairs.includes(key)) return;
+        set({ dismissedPairs: [...get().dismissedPairs, key] });
+      },
+    }),
+    {
+      name: 'document-similarity-storage',
+      partialize: (state) => ({ signatures: state.signatures, dismissedPairs: state.dismissedPairs }),
+    }
+  )
+);
@@ -1,20 +1,31 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { isAxiosError } from 'axios';
 import { documentService } from '../services/api';
+import { generateId, isSupportedFileType } from '../utils';
+import { findExistingDuplicate, hashFile, isBlockingDuplicate } from '../utils/documentSimilarity';
+import { buildFilePreview } from '../utils/filePreview';
 import type { 
   DocumentInfo, 
   UploadProgress, 
   UploadSession, 
   DocumentStats,
-  DocumentUploadProgress 
+  DocumentUploadProgress,
+  BulkDeleteResult
 } from '../types';
 
 interface DocumentStore {
   // State
   documents: DocumentInfo[];
   uploadSessions: UploadSession[];
-  currentUploadProgress: UploadProgress | null;
+  // Sessions being polled; ids are persisted so tracking survives a reload
+  trackedSessionIds: string[];
+  sessionProgress: Record<string, UploadProgress>;
   uploadFiles: DocumentUploadProgress[];
+  // Content hashes of files uploaded from this browser, by file name
+  fileHashes: Record<string, string>;
+  // Files above this size are refused before upload
+  maxUploadSizeMb: number;
   stats: DocumentStats | null;
   isLoading: boolean;
   error: string | null;
@@ -25,32 +36,166 @@ interface DocumentStore {
   fetchDocumentStats: () => Promise<void>;
   
   // Upload Progress
-  startUploadTracking: (sessionId: string, onComplete?: () => void) => void;
-  stopUploadTracking: () => void;
+  startUploadTracking: (sessionId: string) => void;
+  stopUploadTracking: (sessionId: string) => void;
+  resumeUploadTracking: () => void;
   updateUploadProgress: (progress: UploadProgress) => void;
   
   // Upload Files Management
-  addUploadFiles: (files: File[]) => void;
-  updateFileProgress: (index: number, progress: number, status: DocumentUploadProgress['status']) => void;
+  addUploadFiles: (files: File[]) => RejectedUploadFiles;
+  updateFileProgress: (id: string, patch: UploadFilePatch) => void;
+  checkUploadFile: (id: string) => Promise<void>;
+  allowDuplicateUpload: (id: string) => void;
+  setMaxUploadSizeMb: (sizeMb: number) => void;
+  startUploadQueue: () => Promise<void>;
+  cancelUploadFile: (id: string) => void;
+  retryUploadFile: (id: string) => void;
+  removeUploadFile: (id: string) => void;
   clearUploadFiles: () => void;
   
   // Document Management
   deleteDocument: (documentId: string) => Promise<void>;
-  clearAllDocuments: () => Promise<void>;
+  deleteDocuments: (documentIds: string[], onProgress?: (result: BulkDeleteResult) => void) => Promise<BulkDeleteResult[]>;
+  clearAllDocuments: (onProgress?: (result: BulkDeleteResult) => void) => Promise<BulkDeleteResult[]>;
   
   // Utility
   clearError: () => void;
   setLoading: (loading: boolean) => void;
 }
 
+type UploadFilePatch = Partial<Omit<DocumentUploadProgress, 'id' | 'file'>>;
+
+// Names of files addUploadFiles refused, by reason
+export interface RejectedUploadFiles {
+  unsupported: string[];
+  oversized: string[];
+}
+
+const POLL_INTERVAL = 1000;
+const MAX_POLL_INTERVAL = 30 * 1000;
+
+// Transfers in flight, by queue entry id, so single files can be cancelled
+const uploadControllers = new Map<string, AbortController>();
+let isQueueRunning = false;
+
+// One poller per tracked session; replacing or deleting the entry cancels it
+interface SessionPoller {
+  timer?: ReturnType<typeof setTimeout>;
+  failures: number;
+}
+const sessionPollers = new Map<string, SessionPoller>();
+
+const isActiveUpload = (entry: DocumentUploadProgress) =>
+  entry.status === 'pending' || entry.status === 'uploading' || entry.status === 'processing';
+
+// Files flagged as duplicates wait for the user to confirm them
+const isReadyToSend = (entry: DocumentUploadProgress) =>
+  entry.status === 'pending' && (!isBlockingDuplicate(entry.duplicate) || !!entry.allow_duplicate);
+
+const isSessionFinished = (progress: UploadProgress) =>
+  progress.status === 'completed' || progress.status === 'error';
+
+// Maps a session's server-side state onto the queue entry that created it
+const fileStatusFromSession = (progress: UploadProgress): UploadFilePatch => {
+  if (progress.status === 'completed') return { status: 'success', processing_progress: 100 };
+  if (progress.status === 'error') return { status: 'error', error: progress.error_message || 'Dosya işlenemedi' };
+  return { processing_progress: progress.progress_percentage };
+};
+
+const getErrorMessage = (error: unknown, fallback: string): string => {
+  const detail = isAxiosError(error) ? error.response?.data?.detail : undefined;
+  return typeof detail === 'string' ? detail : fallback;
+};
+
+const refreshDocumentData = async (get: () => DocumentStore) => {
+  await Promise.all([
+    get().fetchDocuments(),
+    get().fetchUploadSessions(),
+    get().fetchDocumentStats(),
+  ]);
+};
+
+// Polls /api/upload/progress every second, backing off exponentially while
+// requests fail. A 404 means the server no longer knows the session.
+const pollSession = async (sessionId: string, poller: SessionPoller, get: () => DocumentStore) => {
+  try {
+    const progress = await documentService.getUploadProgress(sessionId);
+    if (sessionPollers.get(sessionId) !== poller) return;
+    poller.failures = 0;
+    get().updateUploadProgress(progress);
+
+    if (isSessionFinished(progress)) {
+      get().stopUploadTracking(sessionId);
+      await refreshDocumentData(get);
+      return;
+    }
+  } catch (error) {
+    if (sessionPollers.get(sessionId) !== poller) return;
+    if (isAxiosError(error) && error.response?.status === 404) {
+      console.error('Upload session not found, tracking stopped:', sessionId);
+      get().uploadFiles
+        .filter((entry) => entry.session_id === sessionId && entry.status === 'processing')
+        .forEach((entry) => get().updateFileProgress(entry.id, { status: 'error', error: 'Yükleme oturumu bulunamadı' }));
+      get().stopUploadTracking(sessionId);
+      return;
+    }
+    console.error('Error tracking upload progress:', error);
+    poller.failures += 1;
+  }
+
+  const interval = Math.min(POLL_INTERVAL * 2 ** poller.failures, MAX_POLL_INTERVAL);
+  poller.timer = setTimeout(() => pollSession(sessionId, poller, get), interval);
+};
+
+const transferFile = async (entry: DocumentUploadProgress, get: () => DocumentStore) => {
+  const { updateFileProgress } = get();
+  const controller = new AbortController();
+  uploadControllers.set(entry.id, controller);
+  updateFileProgress(entry.id, { status: 'uploading', progress: 0, error: undefined });
+
+  try {
+    const response = await documentService.uploadDocuments([entry.file], {
+      signal: controller.signal,
+      onUploadProgress: (progress) => updateFileProgress(entry.id, { progress }),
+    });
+
+    if (entry.hash) {
+      useDocumentStore.setState((state) => ({ fileHashes: { ...state.fileHashes, [entry.file.name]: entry.hash as string } }));
+    }
+
+    if (response.session_id) {
+      updateFileProgress(entry.id, {
+        status: 'processing',
+        progress: 100,
+        processing_progress: 0,
+        session_id: response.session_id,
+      });
+      // Processing runs on the server; the next file can be sent meanwhile
+      get().startUploadTracking(response.session_id);
+    } else {
+      updateFileProgress(entry.id, { status: 'success', progress: 100 });
+      await refreshDocumentData(get);
+    }
+  } catch (error) {
+    // cancelUploadFile has already marked the entry
+    if (controller.signal.aborted) return;
+    updateFileProgress(entry.id, { status: 'error', error: getErrorMessage(error, 'Yükleme başarısız') });
+  } finally {
+    uploadControllers.delete(entry.id);
+  }
+};
+
 export const useDocumentStore = create<DocumentStore>()(
   persist(
     (set, get) => ({
       // Initial state
       documents: [],
       uploadSessions: [],
-      currentUploadProgress: null,
+      trackedSessionIds: [],
+      sessionProgress: {},
       uploadFiles: [],
+      fileHashes: {},
+      maxUploadSizeMb: 50,
       stats: null,
       isLoading: false,
       error: null,
@@ -90,70 +235,168 @@ export const useDocumentStore = create<DocumentStore>()(
       },
 
       // Upload Progress Tracking
-      startUploadTracking: (sessionId: string, onComplete?: () => void) => {
-        const trackProgress = async () => {
-          try {
-            const progress = await documentService.getUploadProgress(sessionId);
-            set({ currentUploadProgress: progress });
-            
-            // If not completed, continue tracking
-            if (progress.status === 'processing' || progress.status === 'pending') {
-              setTimeout(trackProgress, 1000); // Poll every second
-            } else {
-              // Completed or error, refresh ALL document data
-              await Promise.all([
-                get().fetchDocuments(),
-                get().fetchUploadSessions(),
-                get().fetchDocumentStats() // Added this to refresh stats
-              ]);
-              
-              // Clear the current progress
-              set({ currentUploadProgress: null });
-              
-              // Call completion callback if provided
-              if (onComplete) {
-                onComplete();
-              }
-            }
-          } catch (error) {
-            console.error('Error tracking upload progress:', error);
-            set({ 
-              error: error instanceof Error ? error.message : 'Failed to track upload progress',
-              currentUploadProgress: null
-            });
-          }
-        };
-        
-        trackProgress();
+      startUploadTracking: (sessionId: string) => {
+        if (sessionPollers.has(sessionId)) return;
+        const poller: SessionPoller = { failures: 0 };
+        sessionPollers.set(sessionId, poller);
+
+        const { trackedSessionIds } = get();
+        if (!trackedSessionIds.includes(sessionId)) {
+          set({ trackedSessionIds: [...trackedSessionIds, sessionId] });
+        }
+        pollSession(sessionId, poller, get);
+      },
+
+      // Stops polling only; the server keeps processing the session
+      stopUploadTracking: (sessionId: string) => {
+        clearTimeout(sessionPollers.get(sessionId)?.timer);
+        sessionPollers.delete(sessionId);
+
+        const sessionProgress = { ...get().sessionProgress };
+        delete sessionProgress[sessionId];
+        set({
+          trackedSessionIds: get().trackedSessionIds.filter(id => id !== sessionId),
+          sessionProgress
+        });
       },
 
-      stopUploadTracking: () => {
-        set({ currentUploadProgress: null });
+      // Restart polling for sessions persisted by an earlier page load
+      resumeUploadTracking: () => {
+        get().trackedSessionIds.forEach(sessionId => get().startUploadTracking(sessionId));
       },
 
       updateUploadProgress: (progress: UploadProgress) => {
-        set({ currentUploadProgress: progress });
+        const patch = fileStatusFromSession(progress);
+        set({
+          sessionProgress: { ...get().sessionProgress, [progress.session_id]: progress },
+          uploadFiles: get().uploadFiles.map(entry =>
+            entry.session_id === progress.session_id && entry.status === 'processing' ? { ...entry, ...patch } : entry
+          )
+        });
       },
 
       // Upload Files Management
+      // Queues supported files within the size limit and returns the rest
       addUploadFiles: (files: File[]) => {
-        const uploadFiles = files.map(file => ({
+        const maxBytes = get().maxUploadSizeMb * 1024 * 1024;
+        const unsupported = files.filter(file => !isSupportedFileType(file.name));
+        const oversized = files.filter(file => isSupportedFileType(file.name) && file.size > maxBytes);
+        const accepted = files.filter(file => !unsupported.includes(file) && !oversized.includes(file));
+        const queued: DocumentUploadProgress[] = accepted.map(file => ({
+          id: generateId(),
           file,
           progress: 0,
           status: 'pending' as const
         }));
-        set({ uploadFiles });
+        set({ uploadFiles: [...get().uploadFiles, ...queued] });
+        // Hash one file at a time to keep memory use down with large batches
+        (async () => {
+          for (const entry of queued) await get().checkUploadFile(entry.id);
+        })();
+        return {
+          unsupported: unsupported.map(file => file.name),
+          oversized: oversized.map(file => file.name),
+        };
+      },
+
+      updateFileProgress: (id: string, patch: UploadFilePatch) => {
+        set({
+          uploadFiles: get().uploadFiles.map(entry => (entry.id === id ? { ...entry, ...patch } : entry))
+        });
+      },
+
+      // Builds the preview and compares a queued file against existing
+      // documents (content hash, name, size) and against files queued before it
+      checkUploadFile: async (id: string) => {
+        const entry = get().uploadFiles.find(f => f.id === id);
+        if (!entry) return;
+
+        let hash: string | null = null;
+        try {
+          hash = await hashFile(entry.file);
+        } catch (error) {
+          console.error('Failed to hash file:', error);
+        }
+
+        let preview: DocumentUploadProgress['preview'];
+        try {
+          preview = await buildFilePreview(entry.file);
+        } catch (error) {
+          console.error('Failed to build file preview:', error);
+          preview = { kind: 'none', text: '', issues: ['unreadable'] };
+        }
+
+        const index = get().uploadFiles.findIndex(f => f.id === id);
+        if (index === -1) return;
+        const queuedBefore = hash
+          ? get().uploadFiles.slice(0, index).find(f => f.hash === hash && f.status !== 'cancelled' && f.status !== 'error')
+          : undefined;
+        const duplicate = findExistingDuplicate(entry.file, hash, get().documents, get().fileHashes)
+          ?? (queuedBefore ? { file_name: queuedBefore.file.name, reason: 'queue' as const } : undefined);
+        get().updateFileProgress(id, { hash, duplicate, preview });
+      },
+
+      allowDuplicateUpload: (id: string) => {
+        get().updateFileProgress(id, { allow_duplicate: true });
+      },
+
+      setMaxUploadSizeMb: (sizeMb: number) => set({ maxUploadSizeMb: sizeMb }),
+
+      // Sends pending files one at a time; server-side processing is tracked in parallel
+      startUploadQueue: async () => {
+        if (isQueueRunning) return;
+        isQueueRunning = true;
+        try {
+          let next = get().uploadFiles.find(isReadyToSend);
+          while (next) {
+            // Files queued a moment ago may not have been checked yet
+            if (next.hash === undefined) await get().checkUploadFile(next.id);
+            const id = next.id;
+            const entry = get().uploadFiles.find(f => f.id === id);
+            // The limit may have been lowered since the file was queued
+            if (entry && entry.file.size > get().maxUploadSizeMb * 1024 * 1024) {
+              get().updateFileProgress(id, { status: 'error', error: `Dosya ${get().maxUploadSizeMb} MB sınırını aşıyor` });
+            } else if (entry && isReadyToSend(entry)) {
+              await transferFile(entry, get);
+            }
+            next = get().uploadFiles.find(isReadyToSend);
+          }
+        } finally {
+          isQueueRunning = false;
+        }
       },
 
-      updateFileProgress: (index: number, progress: number, status: DocumentUploadProgress['status']) => {
-        const { uploadFiles } = get();
-        const updatedFiles = [...uploadFiles];
-        updatedFiles[index] = { ...updatedFiles[index], progress, status };
-        set({ uploadFiles: updatedFiles });
+      // Only pending files and running transfers can be cancelled; once the
+      // server has the file, processing continues regardless
+      cancelUploadFile: (id: string) => {
+        const entry = get().uploadFiles.find(f => f.id === id);
+        if (!entry || (entry.status !== 'pending' && entry.status !== 'uploading')) return;
+        get().updateFileProgress(id, { status: 'cancelled' });
+        uploadControllers.get(id)?.abort();
       },
 
+      retryUploadFile: (id: string) => {
+        const entry = get().uploadFiles.find(f => f.id === id);
+        if (!entry || (entry.status !== 'error' && entry.status !== 'cancelled')) return;
+        get().updateFileProgress(id, {
+          status: 'pending',
+          progress: 0,
+          processing_progress: undefined,
+          error: undefined,
+          session_id: undefined
+        });
+        get().startUploadQueue();
+      },
+
+      removeUploadFile: (id: string) => {
+        const entry = get().uploadFiles.find(f => f.id === id);
+        if (!entry || entry.status === 'uploading' || entry.status === 'processing') return;
+        set({ uploadFiles: get().uploadFiles.filter(f => f.id !== id) });
+      },
+
+      // Drops finished, failed and cancelled entries; active ones stay
       clearUploadFiles: () => {
-        set({ uploadFiles: [] });
+        set({ uploadFiles: get().uploadFiles.filter(isActiveUpload) });
       },
 
       // Document Management
@@ -177,20 +420,48 @@ export const useDocumentStore = create<DocumentStore>()(
         }
       },
 
-      clearAllDocuments: async () => {
+      // Deletes one by one so a failure doesn't stop the rest; each outcome is
+      // reported as it happens
+      deleteDocuments: async (documentIds: string[], onProgress?: (result: BulkDeleteResult) => void) => {
+        const results: BulkDeleteResult[] = [];
+        for (const id of documentIds) {
+          const fileName = get().documents.find(doc => doc.id === id)?.file_name ?? id;
+          let result: BulkDeleteResult;
+          try {
+            await documentService.deleteDocument(id);
+            result = { id, file_name: fileName, success: true };
+          } catch (error) {
+            result = { id, file_name: fileName, success: false, error: getErrorMessage(error, 'Silinemedi') };
+          }
+          results.push(result);
+          onProgress?.(result);
+        }
+
+        const deleted = new Set(results.filter(r => r.success).map(r => r.id));
+        set({ documents: get().documents.filter(doc => !deleted.has(doc.id)) });
+        get().fetchDocumentStats();
+        return results;
+      },
+
+      // One server call; its outcome is reported for every listed document
+      clearAllDocuments: async (onProgress?: (result: BulkDeleteResult) => void) => {
+        const targets = get().documents;
+        let outcome: Pick<BulkDeleteResult, 'success' | 'error'>;
+        set({ isLoading: true });
         try {
-          set({ isLoading: true, error: null });
           await documentService.clearAllDocuments();
-          set({ documents: [], isLoading: false });
-          
-          // Refresh stats
+          outcome = { success: true };
+          set({ documents: [] });
           get().fetchDocumentStats();
         } catch (error) {
-          set({ 
-            error: error instanceof Error ? error.message : 'Failed to clear all documents',
-            isLoading: false 
-          });
+          outcome = { success: false, error: getErrorMessage(error, 'Dokümanlar silinemedi') };
+        } finally {
+          set({ isLoading: false });
         }
+
+        const results = targets.map((doc) => ({ id: doc.id, file_name: doc.file_name, ...outcome }));
+        results.forEach((result) => onProgress?.(result));
+        return results;
       },
 
       // Utility functions
@@ -203,6 +474,9 @@ export const useDocumentStore = create<DocumentStore>()(
         documents: state.documents,
         uploadSessions: state.uploadSessions,
         stats: state.stats,
+        trackedSessionIds: state.trackedSessionIds,
+        fileHashes: state.fileHashes,
+        maxUploadSizeMb: state.maxUploadSizeMb,
       }),
     }
   )
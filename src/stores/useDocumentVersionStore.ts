@@ -0,0 +1,176 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
+import { isAxiosError } from 'axios';
+import type { DocumentInfo, DocumentVersion, UploadProgress } from '../types';
+import { documentService } from '../services/api';
+import { useDocumentStore } from './useDocumentStore';
+import { useAuthStore } from './useAuthStore';
+import { useDocumentMetadataStore } from './useDocumentMetadataStore';
+
+// Replace-in-place on top of an API that only knows upload and delete: the new
+// file is uploaded and processed first, and the old document is deleted only
+// once the new one is in the index. The version history lives in this browser.
+
+interface DocumentVersionState {
+  // Superseded versions, oldest first, keyed by the current document's id
+  histories: Record<string, DocumentVersion[]>;
+  replacingIds: string[];
+  replaceDocument: (document: DocumentInfo, file: File) => Promise<DocumentInfo>;
+  // Folds a near-duplicate into the kept document: the removed one is deleted
+  // and its content becomes an earlier version of the kept one
+  mergeDocuments: (keep: DocumentInfo, remove: DocumentInfo) => Promise<void>;
+}
+
+const POLL_INTERVAL = 1000;
+const MAX_POLL_INTERVAL = 30 * 1000;
+// Give up on the new version after this long; the old document is kept
+const PROCESSING_TIMEOUT_MINUTES = 10;
+const MAX_VERSIONS = 10;
+
+// localStorage writes that cannot fail. When the quota is hit, the stored text
+// of the oldest versions is dropped until the history fits; their details stay
+// listed, only the diff loses them. A replace has already deleted the old
+// document by the time its history is saved, so that save must not throw.
+const versionStorage: StateStorage = {
+  getItem: (name) => localStorage.getItem(name),
+  removeItem: (name) => localStorage.removeItem(name),
+  setItem: (name, value) => {
+    const persisted = JSON.parse(value) as { state: Pick<DocumentVersionState, 'histories'> };
+    const withText = Object.values(persisted.state.histories)
+      .flat()
+      .filter((version) => version.full_content !== undefined)
+      .sort((a, b) => new Date(a.replaced_at).getTime() - new Date(b.replaced_at).getTime());
+
+    for (let serialized = value; ; serialized = JSON.stringify(persisted)) {
+      try {
+        localStorage.setItem(name, serialized);
+        return;
+      } catch (error) {
+        const oldest = withText.shift();
+        if (!oldest) {
+          console.error('Failed to save document version history:', error);
+          return;
+        }
+        delete oldest.full_content;
+      }
+    }
+  },
+};
+
+const toVersion = (document: DocumentInfo, fullContent: string): DocumentVersion => ({
+  document_id: document.id,
+  file_name: document.file_name,
+  file_size: document.file_size,
+  created_at: document.created_at,
+  chunks_count: document.chunks_count,
+  full_content: fullContent,
+  replaced_at: new Date().toISOString(),
+  replaced_by: useAuthStore.getState().user?.email,
+});
+
+const refreshDocuments = () =>
+  Promise.all([
+    useDocumentStore.getState().fetchDocuments(),
+    useDocumentStore.getState().fetchDocumentStats(),
+  ]);
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Waits until the session has processed the new version. Failed polls are
+// retried with backoff until the deadline. When the wait is given up, the new
+// copy is already on the server next to the old document, so the session is
+// handed to the dashboard's upload tracking and the error says so.
+const waitForProcessing = async (sessionId: string, fileName: string) => {
+  const deadline = Date.now() + PROCESSING_TIMEOUT_MINUTES * 60 * 1000;
+  let failures = 0;
+  while (Date.now() < deadline) {
+    let progress: UploadProgress | null = null;
+    try {
+      progress = await documentService.getUploadProgress(sessionId);
+      failures = 0;
+    } catch (error) {
+      if (isAxiosError(error) && error.response?.status === 404) {
+        throw new Error(
+          `Yükleme oturumu bulunamadı; "${fileName}" yine de doküman listesine eklenmiş olabilir. Eski doküman silinmedi.`
+        );
+      }
+      console.error('Error polling replacement upload:', error);
+      failures += 1;
+    }
+
+    if (progress?.status === 'completed') return;
+    if (progress?.status === 'error') throw new Error(progress.error_message || 'Yeni sürüm işlenemedi');
+    await delay(Math.min(POLL_INTERVAL * 2 ** failures, MAX_POLL_INTERVAL, Math.max(0, deadline - Date.now())));
+  }
+
+  useDocumentStore.getState().startUploadTracking(sessionId);
+  throw new Error(
+    `Yeni sürüm ${PROCESSING_TIMEOUT_MINUTES} dakika içinde işlenmedi. "${fileName}" sunucuya yüklendi ve işlenmeye devam ediyor; ` +
+      'eski doküman silinmedi. Oturumu yükleme geçmişinden izleyip işlendikten sonra eski dokümanı silebilirsiniz.'
+  );
+};
+
+// The upload response doesn't name the created document; take the newest one
+// with the uploaded file name
+const findUploadedDocument = (fileName: string, previousId: string): DocumentInfo | undefined =>
+  useDocumentStore.getState().documents
+    .filter((doc) => doc.file_name === fileName && doc.id !== previousId)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())[0];
+
+export const useDocumentVersionStore = create<DocumentVersionState>()(
+  persist(
+    (set, get) => ({
+      histories: {},
+      replacingIds: [],
+
+      replaceDocument: async (document, file) => {
+        set({ replacingIds: [...get().replacingIds, document.id] });
+        try {
+          const previous = await documentService.getDocumentContent(document.id);
+
+          const response = await documentService.uploadDocuments([file]);
+          if (response.session_id) await waitForProcessing(response.session_id, file.name);
+
+          await useDocumentStore.getState().fetchDocuments();
+          const uploaded = findUploadedDocument(file.name, document.id);
+          if (!uploaded) throw new Error('Yeni sürüm doküman listesinde bulunamadı');
+
+          await documentService.deleteDocument(document.id);
+          useDocumentMetadataStore.getState().renameMetadata(document.file_name, uploaded.file_name);
+
+          const version = toVersion(document, previous.full_content);
+          const { [document.id]: earlier = [], ...histories } = get().histories;
+          set({ histories: { ...histories, [uploaded.id]: [...earlier, version].slice(-MAX_VERSIONS) } });
+
+          await refreshDocuments();
+          return uploaded;
+        } finally {
+          set({ replacingIds: get().replacingIds.filter((id) => id !== document.id) });
+        }
+      },
+
+      mergeDocuments: async (keep, remove) => {
+        set({ replacingIds: [...get().replacingIds, keep.id, remove.id] });
+        try {
+          const removed = await documentService.getDocumentContent(remove.id);
+          await documentService.deleteDocument(remove.id);
+          useDocumentMetadataStore.getState().renameMetadata(remove.file_name, keep.file_name);
+
+          const { [remove.id]: removedHistory = [], [keep.id]: keptHistory = [], ...histories } = get().histories;
+          const merged = [...removedHistory, toVersion(remove, removed.full_content), ...keptHistory]
+            .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+          set({ histories: { ...histories, [keep.id]: merged.slice(-MAX_VERSIONS) } });
+
+          await refreshDocuments();
+        } finally {
+          set({ replacingIds: get().replacingIds.filter((id) => id !== keep.id && id !== remove.id) });
+        }
+      },
+    }),
+    {
+      name: 'document-version-storage',
+      storage: createJSONStorage(() => versionStorage),
+      partialize: (state) => ({ histories: state.histories }),
+    }
+  )
+);
@@ -0,0 +1,51 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { chatService } from '../services/api';
+import { countCitations } from '../utils/documentFreshness';
+
+// Thresholds for the freshness panel, kept per browser, plus citation counts
+// from the most recent chat history.
+
+interface FreshnessState {
+  maxAgeDays: number;
+  expiringWithinDays: number;
+  citationCounts: Record<string, number> | null;
+  historySize: number;
+  isLoadingCitations: boolean;
+  setThresholds: (thresholds: Partial<Pick<FreshnessState, 'maxAgeDays' | 'expiringWithinDays'>>) => void;
+  loadCitations: () => Promise<void>;
+}
+
+// Largest history the API returns; older answers don't count as citations
+const HISTORY_LIMIT = 1000;
+
+export const useFreshnessStore = create<FreshnessState>()(
+  persist(
+    (set, get) => ({
+      maxAgeDays: 365,
+      expiringWithinDays: 30,
+      citationCounts: null,
+      historySize: 0,
+      isLoadingCitations: false,
+
+      setThresholds: (thresholds) => set(thresholds),
+
+      loadCitations: async () => {
+        if (get().isLoadingCitations) return;
+        set({ isLoadingCitations: true });
+        try {
+          const history = await chatService.getChatHistory(HISTORY_LIMIT, { admin: true });
+          set({ citationCounts: countCitations(history), historySize: history.length });
+        } catch (error) {
+          console.error('Failed to load chat history for citations:', error);
+        } finally {
+          set({ isLoadingCitations: false });
+        }
+      },
+    }),
+    {
+      name: 'freshness-storage',
+      partialize: (state) => ({ maxAgeDays: state.maxAgeDays, expiringWithinDays: state.expiringWithinDays }),
+    }
+  )
+);
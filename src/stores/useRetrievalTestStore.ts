@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ChatSource, RetrievalTestCase, RetrievalTestRun } from '../types';
+import { chatService } from '../services/api';
+import { generateId, getSourceInfo } from '../utils';
+
+interface RetrievalTestState {
+  cases: RetrievalTestCase[];
+  runningIds: string[];
+  addCase: (question: string, expectedAnswer: string, sources: ChatSource[]) => void;
+  removeCase: (id: string) => void;
+  runCase: (id: string) => Promise<void>;
+  runAllCases: () => Promise<void>;
+  // Adopt the latest run's sources as the new baseline
+  acceptLastRun: (id: string) => void;
+}
+
+export interface SourceDiff {
+  added: string[];
+  removed: string[];
+}
+
+// A source is identified by its document and article; snippets vary between runs
+export const getSourceKey = (source: ChatSource): string => {
+  const { fileName, article } = getSourceInfo(source);
+  return article ? `${fileName} • ${article}` : fileName;
+};
+
+export const diffSources = (baseline: ChatSource[], current: ChatSource[]): SourceDiff => {
+  const before = new Set(baseline.map(getSourceKey));
+  const after = new Set(current.map(getSourceKey));
+  return {
+    added: [...after].filter((key) => !before.has(key)),
+    removed: [...before].filter((key) => !after.has(key)),
+  };
+};
+
+export const useRetrievalTestStore = create<RetrievalTestState>()(
+  persist(
+    (set, get) => ({
+      cases: [],
+      runningIds: [],
+
+      addCase: (question, expectedAnswer, sources) => {
+        const testCase: RetrievalTestCase = {
+          id: generateId(),
+          question,
+          expected_answer: expectedAnswer,
+          baseline_sources: sources,
+          created_at: new Date().toISOString(),
+        };
+        set({ cases: [testCase, ...get().cases] });
+      },
+
+      removeCase: (id) => {
+        set({ cases: get().cases.filter((c) => c.id !== id) });
+      },
+
+      runCase: async (id) => {
+        const testCase = get().cases.find((c) => c.id === id);
+        if (!testCase || get().runningIds.includes(id)) return;
+
+        set({ runningIds: [...get().runningIds, id] });
+        let run: RetrievalTestRun;
+        try {
+          const response = await chatService.sendMessage({ message: testCase.question });
+          run = { answer: response.response, sources: response.sources, ran_at: new Date().toISOString() };
+        } catch (error) {
+          console.error('Retrieval test failed:', error);
+          run = { answer: '', sources: [], ran_at: new Date().toISOString(), error: 'Yanıt alınamadı' };
+        }
+
+        set({
+          cases: get().cases.map((c) => (c.id === id ? { ...c, last_run: run } : c)),
+          runningIds: get().runningIds.filter((runningId) => runningId !== id),
+        });
+      },
+
+      // Sequential, so a large set doesn't flood the chat endpoint
+      runAllCases: async () => {
+        for (const testCase of get().cases) {
+          await get().runCase(testCase.id);
+        }
+      },
+
+      acceptLastRun: (id) => {
+        set({
+          cases: get().cases.map((c) =>
+            c.id === id && c.last_run && !c.last_run.error ? { ...c, baseline_sources: c.last_run.sources } : c
+          ),
+        });
+      },
+    }),
+    {
+      name: 'retrieval-test-storage',
+      partialize: (state) => ({ cases: state.cases }),
+    }
+  )
+);
@@ -1,73 +1,33 @@
 // API Response Types
-export interface LoginRequest {
-  email: string;
-  password: string;
-}
-
-export interface LoginResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-  email: string;
-}
+// Schemas published in endpoints.json come from the generated client; the
+// types below cover responses the spec leaves untyped.
+import type { ChatResponse } from '../services/openapi';
+
+export type {
+  LoginRequest,
+  LoginResponse,
+  ChatMessage,
+  ChatResponse,
+  DocumentInfo,
+  DocumentChunk,
+  DocumentContent,
+  DocumentDetails,
+  UploadResponse,
+  HTTPValidationError,
+} from '../services/openapi';
+
+// Retrieved chunk a chat answer was based on (file name, article, snippet)
+export type ChatSource = ChatResponse['sources'][number];
 
-export interface ChatMessage {
-  message: string;
-}
-
-export interface ChatResponse {
-  response: string;
-  sources: Array<{ [key: string]: string }>;
-  timestamp: string;
-}
-
-export interface DocumentInfo {
-  id: string;
-  file_name: string;
-  file_size: number;
-  created_at: string;
-  status: string;
-  chunks_count?: number;
-}
-
-// New document management types
-export interface DocumentChunk {
-  chunk_index: number;
-  content: string;
-  source: string;
-  article?: string | null;
-}
-
-export interface DocumentContent {
-  document_id: string;
-  file_name: string;
-  file_size: number;
-  created_at: string;
-  status: string;
-  total_chunks: number;
-  full_content: string;
-  raw_chunks?: DocumentChunk[] | null;
-}
-
-export interface DocumentDetails {
-  document_id: string;
+// Upload Progress & Session Types
+// Per-file outcome inside an upload session; only reported by newer backends
+export interface UploadSessionFile {
   file_name: string;
-  file_size: number;
-  created_at: string;
-  status: string;
-  chunks_count: number;
-  metadata: Record<string, any>;
-  weaviate_chunks: number;
-}
-
-export interface UploadResponse {
-  status: string;
-  message: string;
-  files_processed: number;
-  session_id?: string; // Upload session ID for progress tracking
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  error_message?: string;
+  document_id?: string;
 }
 
-// Upload Progress & Session Types
 export interface UploadProgress {
   session_id: string;
   total_files: number;
@@ -78,6 +38,7 @@ export interface UploadProgress {
   error_message?: string;
   started_at: string;
   completed_at?: string;
+  files?: UploadSessionFile[];
 }
 
 export interface UploadSession {
@@ -88,6 +49,8 @@ export interface UploadSession {
   started_at: string;
   completed_at?: string;
   created_by: string;
+  error_message?: string;
+  files?: UploadSessionFile[];
 }
 
 // Application Types
@@ -96,13 +59,18 @@ export interface ChatHistoryItem {
   message: string;
   response: string;
   timestamp: string;
-  sources?: Array<{ [key: string]: string }>;
+  sources?: ChatSource[];
 }
 
+// Viewers can browse documents and analytics; editors can also upload, delete and clear
+export type AdminRole = 'viewer' | 'editor';
+
+// The access token itself lives in services/authToken
 export interface User {
   email: string;
-  token: string;
   isAuthenticated: boolean;
+  expiresAt?: number; // epoch ms
+  role?: AdminRole;
 }
 
 export interface SystemStats {
@@ -113,18 +81,120 @@ export interface SystemStats {
   last_updated: string;
 }
 
+// Admin cache endpoints publish no response schema, so every field is optional
+// and unknown counters are kept for display
+export interface CacheStats {
+  enabled?: boolean;
+  entries?: number;
+  size?: number;
+  size_bytes?: number;
+  max_size?: number;
+  hits?: number;
+  misses?: number;
+  hit_rate?: number;
+  [key: string]: unknown;
+}
+
+export interface CacheStatus {
+  status?: string;
+  caches?: Record<string, CacheStats>;
+  [key: string]: unknown;
+}
+
+export interface ClearCacheResponse {
+  message?: string;
+  cleared?: string[] | number;
+  [key: string]: unknown;
+}
+
 export interface AppState {
   user: User | null;
   isLoading: boolean;
   error: string | null;
 }
 
+// One file in the admin upload queue: transfer first, then server-side processing
 export interface DocumentUploadProgress {
+  id: string;
   file: File;
-  progress: number;
-  status: 'pending' | 'uploading' | 'success' | 'error';
+  progress: number; // bytes sent, 0-100
+  processing_progress?: number; // server-side, 0-100
+  status: 'pending' | 'uploading' | 'processing' | 'success' | 'error' | 'cancelled';
   error?: string;
   session_id?: string;
+  hash?: string | null; // SHA-256, null when the browser can't hash
+  duplicate?: UploadDuplicate;
+  allow_duplicate?: boolean; // uploaded despite a duplicate warning
+  preview?: FilePreview;
+}
+
+// What the browser could read out of a file before it is uploaded
+export type FilePreviewIssue = 'empty' | 'scanned' | 'unreadable';
+
+export interface FilePreview {
+  kind: 'text' | 'markdown' | 'pdf' | 'none'; // 'none': no preview for this type
+  text: string; // start of the text; for PDFs the first page
+  page_count?: number;
+  issues: FilePreviewIssue[];
+}
+
+// Existing document a queued file appears to duplicate. `size` alone is only
+// a hint; `queue` means the same content is already queued.
+export interface UploadDuplicate {
+  file_name: string;
+  reason: 'hash' | 'name' | 'size' | 'queue';
+}
+
+// Admin retrieval test bench: saved question/expected-answer pairs whose
+// sources are compared against the ones recorded when the case was saved
+export interface RetrievalTestRun {
+  answer: string;
+  sources: ChatSource[];
+  ran_at: string;
+  error?: string;
+}
+
+export interface RetrievalTestCase {
+  id: string;
+  question: string;
+  expected_answer: string;
+  baseline_sources: ChatSource[];
+  created_at: string;
+  last_run?: RetrievalTestRun;
+}
+
+// Outcome of one deletion in a bulk delete
+export interface BulkDeleteResult {
+  id: string;
+  file_name: string;
+  success: boolean;
+  error?: string;
+}
+
+// Typed view of DocumentDetails.metadata; every field is optional because
+// older uploads carry none of them
+export type DocumentCategory = 'yönetmelik' | 'yönerge' | 'esaslar' | 'duyuru' | 'form' | 'diğer';
+
+export interface DocumentMetadata {
+  faculty?: string; // faculty or department
+  category?: DocumentCategory;
+  language?: 'tr' | 'en';
+  effective_date?: string; // yyyy-MM-dd
+  expiry_date?: string; // yyyy-MM-dd
+  tags?: string[];
+}
+
+// A superseded version of a document. The backend keeps no history, so the
+// dashboard records the old document's details and text when replacing it.
+export interface DocumentVersion {
+  document_id: string;
+  file_name: string;
+  file_size: number;
+  created_at: string;
+  chunks_count?: number | null;
+  full_content?: string;
+  replaced_at: string;
+  replaced_by?: string;
 }
 
 // Document Management Types
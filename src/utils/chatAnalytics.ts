@@ -0,0 +1,96 @@
+import { format, eachDayOfInterval, startOfDay } from 'date-fns';
+import type { ChatHistoryItem } from '../types';
+import { getSourceInfo } from './index';
+
+// Aggregates over /api/chat/history for the admin conversations tab
+
+export interface DailyCount {
+  day: string; // yyyy-MM-dd
+  count: number;
+}
+
+export interface TermCount {
+  term: string;
+  count: number;
+}
+
+// Common Turkish function words and question filler that say nothing about the topic
+const STOPWORDS = new Set([
+  'acaba', 'ama', 'ancak', 'bana', 'ben', 'benim', 'bir', 'biraz', 'bize', 'biz', 'bu', 'buna', 'bunu',
+  'çok', 'daha', 'değil', 'diye', 'en', 'gibi', 'hakkında', 'hangi', 'hangisi', 'hem', 'her', 'için',
+  'ile', 'ise', 'istiyorum', 'kaç', 'kadar', 'kim', 'mı', 'mi', 'mu', 'mü', 'mıdır', 'midir', 'nasıl',
+  'ne', 'neden', 'nedir', 'neler', 'nelerdir', 'nerede', 'nereden', 'niye', 'olan', 'olarak', 'olur',
+  'olursa', 'olmak', 'önce', 'sonra', 'şu', 'şey', 'tüm', 've', 'var', 'veya', 'ya', 'yok', 'zaman',
+  'the', 'and', 'what', 'how', 'for', 'are', 'can', 'does', 'with',
+]);
+
+export function toDayKey(timestamp: string | Date): string {
+  return format(typeof timestamp === 'string' ? new Date(timestamp) : timestamp, 'yyyy-MM-dd');
+}
+
+export function hasSources(item: ChatHistoryItem): boolean {
+  return (item.sources?.length ?? 0) > 0;
+}
+
+// Questions per day, including days without questions so the chart has no gaps
+export function countQuestionsPerDay(items: ChatHistoryItem[]): DailyCount[] {
+  if (items.length === 0) return [];
+
+  const counts = new Map<string, number>();
+  let first = Infinity;
+  let last = -Infinity;
+
+  items.forEach((item) => {
+    const time = new Date(item.timestamp).getTime();
+    if (Number.isNaN(time)) return;
+    first = Math.min(first, time);
+    last = Math.max(last, time);
+    const key = toDayKey(item.timestamp);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  if (!Number.isFinite(first)) return [];
+
+  return eachDayOfInterval({ start: startOfDay(first), end: startOfDay(last) }).map((day) => {
+    const key = toDayKey(day);
+    return { day: key, count: counts.get(key) ?? 0 };
+  });
+}
+
+export function tokenizeQuestion(question: string): string[] {
+  return question
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+}
+
+// Most frequent meaningful words across questions, counted once per question
+export function topQuestionTerms(items: ChatHistoryItem[], limit: number = 10): TermCount[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    new Set(tokenizeQuestion(item.message)).forEach((term) => {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    });
+  });
+
+  return [...counts.entries()]
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term, 'tr'))
+    .slice(0, limit);
+}
+
+// Documents cited most often in answers, counted once per answer
+export function topCitedDocuments(items: ChatHistoryItem[], limit: number = 10): TermCount[] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    new Set((item.sources ?? []).map((source) => getSourceInfo(source).fileName)).forEach((fileName) => {
+      counts.set(fileName, (counts.get(fileName) ?? 0) + 1);
+    });
+  });
+
+  return [...counts.entries()]
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, limit);
+}
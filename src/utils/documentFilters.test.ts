@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_DOCUMENT_FILTERS,
+  filterDocuments,
+  hasActiveFilters,
+  parseDocumentFilters,
+  sortDocuments,
+  writeDocumentFilters,
+  type DocumentFilters,
+} from './documentFilters';
+import type { DocumentInfo } from '../types';
+
+const doc = (id: string, fileName: string, overrides: Partial<DocumentInfo> = {}): DocumentInfo => ({
+  id,
+  file_name: fileName,
+  file_size: 1024 * 1024,
+  created_at: '2025-03-10T12:00:00',
+  status: 'processed',
+  chunks_count: 10,
+  ...overrides,
+});
+
+const documents = [
+  doc('1', 'Öğrenci Yönetmeliği.pdf', { file_size: 3 * 1024 * 1024, created_at: '2025-01-05T09:00:00' }),
+  doc('2', 'harc-ucretleri.txt', { file_size: 200 * 1024, created_at: '2025-03-10T23:30:00' }),
+  doc('3', 'Staj Yönergesi.md', { status: 'processing', created_at: '2025-03-11T00:10:00', chunks_count: null }),
+];
+
+const filtersWith = (overrides: Partial<DocumentFilters>): DocumentFilters => ({ ...DEFAULT_DOCUMENT_FILTERS, ...overrides });
+
+describe('document filters in the URL', () => {
+  it('round-trips every field through URLSearchParams', () => {
+    const filters = filtersWith({
+      query: 'yönetmelik',
+      status: 'processed',
+      type: 'pdf',
+      minSizeMb: 0.5,
+      maxSizeMb: 10,
+      from: '2025-01-01',
+      to: '2025-03-31',
+      category: 'yönerge',
+      faculty: 'Mühendislik Fakültesi',
+      tag: 'staj',
+      sort: 'size',
+      dir: 'asc',
+      page: 3,
+    });
+    const params = writeDocumentFilters(new URLSearchParams(), filters);
+    expect(parseDocumentFilters(new URLSearchParams(params.toString()))).toEqual(filters);
+  });
+
+  it('leaves defaults out of the URL and keeps unrelated keys', () => {
+    const params = writeDocumentFilters(new URLSearchParams('tab=documents&q=eski'), DEFAULT_DOCUMENT_FILTERS);
+    expect(params.toString()).toBe('tab=documents');
+  });
+
+  it('falls back to defaults for invalid values', () => {
+    expect(parseDocumentFilters(new URLSearchParams('sort=color&dir=up&page=-2&minSize=abc&maxSize=-1'))).toEqual(
+      DEFAULT_DOCUMENT_FILTERS
+    );
+  });
+
+  it('reports whether any filter narrows the list', () => {
+    expect(hasActiveFilters(filtersWith({ sort: 'name', page: 4 }))).toBe(false);
+    expect(hasActiveFilters(filtersWith({ minSizeMb: 0 }))).toBe(true);
+  });
+});
+
+describe('filterDocuments', () => {
+  const ids = (filters: Partial<DocumentFilters>, metadata = {}) =>
+    filterDocuments(documents, filtersWith(filters), metadata).map((d) => d.id);
+
+  it('matches the name case-insensitively with Turkish casing', () => {
+    expect(ids({ query: 'ÖĞRENCİ' })).toEqual(['1']);
+  });
+
+  it('filters by status, extension and size', () => {
+    expect(ids({ status: 'processing' })).toEqual(['3']);
+    expect(ids({ type: 'txt' })).toEqual(['2']);
+    expect(ids({ minSizeMb: 1, maxSizeMb: 2 })).toEqual(['3']);
+  });
+
+  it('treats the date range as whole local days', () => {
+    expect(ids({ from: '2025-03-10', to: '2025-03-10' })).toEqual(['2']);
+  });
+
+  it('filters by the admin notes of each file', () => {
+    const metadata = { 'Staj Yönergesi.md': { category: 'yönerge' as const, tags: ['staj'] } };
+    expect(ids({ category: 'yönerge' }, metadata)).toEqual(['3']);
+    expect(ids({ tag: 'staj' }, metadata)).toEqual(['3']);
+    expect(ids({ faculty: 'Hukuk' }, metadata)).toEqual([]);
+  });
+});
+
+describe('sortDocuments', () => {
+  it('sorts in both directions without changing the input', () => {
+    expect(sortDocuments(documents, 'size', 'asc').map((d) => d.id)).toEqual(['2', '3', '1']);
+    expect(sortDocuments(documents, 'date', 'desc').map((d) => d.id)).toEqual(['3', '2', '1']);
+    expect(sortDocuments(documents, 'chunks', 'asc').map((d) => d.id)).toEqual(['3', '1', '2']);
+    expect(documents.map((d) => d.id)).toEqual(['1', '2', '3']);
+  });
+});
@@ -0,0 +1,155 @@
+import type { DocumentInfo, DocumentMetadata } from '../types';
+import { getFileExtension } from './index';
+
+// Filter, sort and paging state for the admin documents table. The state lives
+// in the URL so a filtered view can be bookmarked or shared.
+
+export type DocumentSortKey = 'name' | 'size' | 'date' | 'chunks' | 'status';
+export type SortDirection = 'asc' | 'desc';
+
+export interface DocumentFilters {
+  query: string;
+  status: string; // '' = any
+  type: string; // file extension, '' = any
+  minSizeMb: number | null;
+  maxSizeMb: number | null;
+  from: string; // yyyy-MM-dd, inclusive
+  to: string; // yyyy-MM-dd, inclusive
+  category: string; // DocumentCategory, '' = any
+  faculty: string;
+  tag: string;
+  sort: DocumentSortKey;
+  dir: SortDirection;
+  page: number; // 1-based
+}
+
+export const DOCUMENTS_PAGE_SIZE = 50;
+
+const SORT_KEYS: DocumentSortKey[] = ['name', 'size', 'date', 'chunks', 'status'];
+
+export const DEFAULT_DOCUMENT_FILTERS: DocumentFilters = {
+  query: '',
+  status: '',
+  type: '',
+  minSizeMb: null,
+  maxSizeMb: null,
+  from: '',
+  to: '',
+  category: '',
+  faculty: '',
+  tag: '',
+  sort: 'date',
+  dir: 'desc',
+  page: 1,
+};
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+export function parseDocumentFilters(params: URLSearchParams): DocumentFilters {
+  const sort = params.get('sort') as DocumentSortKey | null;
+  const page = Number(params.get('page'));
+  return {
+    query: params.get('q') ?? '',
+    status: params.get('status') ?? '',
+    type: params.get('type') ?? '',
+    minSizeMb: parseNumber(params.get('minSize')),
+    maxSizeMb: parseNumber(params.get('maxSize')),
+    from: params.get('from') ?? '',
+    to: params.get('to') ?? '',
+    category: params.get('category') ?? '',
+    faculty: params.get('faculty') ?? '',
+    tag: params.get('tag') ?? '',
+    sort: sort && SORT_KEYS.includes(sort) ? sort : DEFAULT_DOCUMENT_FILTERS.sort,
+    dir: params.get('dir') === 'asc' ? 'asc' : params.get('dir') === 'desc' ? 'desc' : DEFAULT_DOCUMENT_FILTERS.dir,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+// Writes only non-default values into `params`, leaving unrelated keys intact
+export function writeDocumentFilters(params: URLSearchParams, filters: DocumentFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const entries: [string, string][] = [
+    ['q', filters.query],
+    ['status', filters.status],
+    ['type', filters.type],
+    ['minSize', filters.minSizeMb === null ? '' : String(filters.minSizeMb)],
+    ['maxSize', filters.maxSizeMb === null ? '' : String(filters.maxSizeMb)],
+    ['from', filters.from],
+    ['to', filters.to],
+    ['category', filters.category],
+    ['faculty', filters.faculty],
+    ['tag', filters.tag],
+    ['sort', filters.sort === DEFAULT_DOCUMENT_FILTERS.sort ? '' : filters.sort],
+    ['dir', filters.dir === DEFAULT_DOCUMENT_FILTERS.dir ? '' : filters.dir],
+    ['page', filters.page === 1 ? '' : String(filters.page)],
+  ];
+  entries.forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+  return next;
+}
+
+export function hasActiveFilters(filters: DocumentFilters): boolean {
+  return Boolean(
+    filters.query || filters.status || filters.type || filters.from || filters.to ||
+    filters.category || filters.faculty || filters.tag ||
+    filters.minSizeMb !== null || filters.maxSizeMb !== null
+  );
+}
+
+const getDocumentType = (doc: DocumentInfo) => getFileExtension(doc.file_name).toLowerCase();
+
+// Distinct extensions present in the list, for the type filter options
+export function getDocumentTypes(documents: DocumentInfo[]): string[] {
+  return Array.from(new Set(documents.map(getDocumentType).filter(Boolean))).sort();
+}
+
+// Category, faculty and tags come from the admin notes, keyed by file name,
+// since the document list doesn't include metadata
+export function filterDocuments(
+  documents: DocumentInfo[],
+  filters: DocumentFilters,
+  metadataByFile: Record<string, DocumentMetadata> = {}
+): DocumentInfo[] {
+  const query = filters.query.trim().toLocaleLowerCase('tr-TR');
+  const minBytes = filters.minSizeMb === null ? null : filters.minSizeMb * 1024 * 1024;
+  const maxBytes = filters.maxSizeMb === null ? null : filters.maxSizeMb * 1024 * 1024;
+  // Date inputs are local calendar days; compare against local midnight bounds
+  const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : null;
+  const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : null;
+
+  return documents.filter((doc) => {
+    if (query && !doc.file_name.toLocaleLowerCase('tr-TR').includes(query)) return false;
+    if (filters.status && doc.status !== filters.status) return false;
+    if (filters.type && getDocumentType(doc) !== filters.type) return false;
+    if (minBytes !== null && doc.file_size < minBytes) return false;
+    if (maxBytes !== null && doc.file_size > maxBytes) return false;
+    if (from !== null || to !== null) {
+      const created = new Date(doc.created_at).getTime();
+      if (from !== null && created < from) return false;
+      if (to !== null && created > to) return false;
+    }
+    if (filters.category || filters.faculty || filters.tag) {
+      const metadata = metadataByFile[doc.file_name] ?? {};
+      if (filters.category && metadata.category !== filters.category) return false;
+      if (filters.faculty && metadata.faculty !== filters.faculty) return false;
+      if (filters.tag && !metadata.tags?.includes(filters.tag)) return false;
+    }
+    return true;
+  });
+}
+
+const compareBy: Record<DocumentSortKey, (a: DocumentInfo, b: DocumentInfo) => number> = {
+  name: (a, b) => a.file_name.localeCompare(b.file_name, 'tr-TR', { numeric: true }),
+  size: (a, b) => a.file_size - b.file_size,
+  date: (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  chunks: (a, b) => (a.chunks_count ?? 0) - (b.chunks_count ?? 0),
+  status: (a, b) => a.status.localeCompare(b.status, 'tr-TR'),
+};
+
+export function sortDocuments(documents: DocumentInfo[], sort: DocumentSortKey, dir: SortDirection): DocumentInfo[] {
+  const sign = dir === 'asc' ? 1 : -1;
+  return [...documents].sort((a, b) => compareBy[sort](a, b) * sign);
+}
@@ -0,0 +1,90 @@
+import { differenceInCalendarDays, format } from 'date-fns';
+import type { ChatHistoryItem, DocumentInfo, DocumentMetadata } from '../types';
+import { getSourceInfo } from './index';
+
+// Staleness checks for the overview freshness panel. Ages come from
+// DocumentInfo.created_at, validity from the admin notes kept in this browser
+// and citations from the chat history.
+
+export type FreshnessIssue = 'old' | 'expired' | 'expiring' | 'uncited';
+
+export interface FreshnessEntry {
+  document: DocumentInfo;
+  issues: FreshnessIssue[];
+  ageDays: number;
+  expiryDate?: string;
+  daysToExpiry?: number;
+  citations: number | null; // null while the chat history isn't loaded
+}
+
+export interface FreshnessOptions {
+  maxAgeDays: number;
+  expiringWithinDays: number;
+  metadataByFile: Record<string, DocumentMetadata>;
+  citationCounts: Record<string, number> | null;
+  now?: Date;
+}
+
+export const FRESHNESS_ISSUE_LABELS: Record<FreshnessIssue, string> = {
+  old: 'Eski',
+  expired: 'Süresi dolmuş',
+  expiring: 'Süresi doluyor',
+  uncited: 'Hiç kaynak gösterilmemiş',
+};
+
+// Answers citing each file, counted once per answer
+export function countCitations(items: ChatHistoryItem[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  items.forEach((item) => {
+    new Set((item.sources ?? []).map((source) => getSourceInfo(source).fileName)).forEach((fileName) => {
+      counts[fileName] = (counts[fileName] ?? 0) + 1;
+    });
+  });
+  return counts;
+}
+
+// Documents with at least one issue, expired ones first, then by age
+export function assessFreshness(documents: DocumentInfo[], options: FreshnessOptions): FreshnessEntry[] {
+  const now = options.now ?? new Date();
+
+  return documents
+    .map((document): FreshnessEntry => {
+      const ageDays = differenceInCalendarDays(now, new Date(document.created_at));
+      const expiryDate = options.metadataByFile[document.file_name]?.expiry_date;
+      const daysToExpiry = expiryDate ? differenceInCalendarDays(new Date(`${expiryDate}T00:00:00`), now) : undefined;
+      const citations = options.citationCounts ? options.citationCounts[document.file_name] ?? 0 : null;
+
+      const issues: FreshnessIssue[] = [];
+      if (daysToExpiry !== undefined && daysToExpiry < 0) issues.push('expired');
+      else if (daysToExpiry !== undefined && daysToExpiry <= options.expiringWithinDays) issues.push('expiring');
+      if (ageDays > options.maxAgeDays) issues.push('old');
+      if (citations === 0) issues.push('uncited');
+
+      return { document, issues, ageDays, expiryDate, daysToExpiry, citations };
+    })
+    .filter((entry) => entry.issues.length > 0)
+    .sort((a, b) =>
+      Number(b.issues.includes('expired')) - Number(a.issues.includes('expired')) ||
+      Number(b.issues.includes('expiring')) - Number(a.issues.includes('expiring')) ||
+      b.ageDays - a.ageDays
+    );
+}
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",;\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV with a BOM so spreadsheet apps read the Turkish characters correctly
+export function buildFreshnessReport(entries: FreshnessEntry[]): string {
+  const header = ['Dosya', 'Yüklenme tarihi', 'Yaş (gün)', 'Geçerlilik bitişi', 'Kaynak gösterilme', 'Sorunlar'];
+  const rows = entries.map((entry) => [
+    entry.document.file_name,
+    format(new Date(entry.document.created_at), 'yyyy-MM-dd'),
+    entry.ageDays,
+    entry.expiryDate,
+    entry.citations,
+    entry.issues.map((issue) => FRESHNESS_ISSUE_LABELS[issue]).join(', '),
+  ]);
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
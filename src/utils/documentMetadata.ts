@@ -0,0 +1,101 @@
+import type { DocumentCategory, DocumentMetadata } from '../types';
+
+export const CATEGORY_LABELS: Record<DocumentCategory, string> = {
+  'yönetmelik': 'Yönetmelik',
+  'yönerge': 'Yönerge',
+  'esaslar': 'Usul ve Esaslar',
+  'duyuru': 'Duyuru',
+  'form': 'Form',
+  'diğer': 'Diğer',
+};
+
+export const LANGUAGE_LABELS: Record<NonNullable<DocumentMetadata['language']>, string> = {
+  tr: 'Türkçe',
+  en: 'İngilizce',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+const pickString = (raw: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = raw[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+const pickDate = (raw: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  const value = pickString(raw, ...keys);
+  return value && DATE_PATTERN.test(value) ? value.slice(0, 10) : undefined;
+};
+
+// Tags arrive as an array from the API and as a comma-separated string in
+// chat sources, whose values are all strings
+export function parseTags(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return Array.from(new Set(
+    items.filter((tag): tag is string => typeof tag === 'string').map((tag) => tag.trim()).filter(Boolean)
+  ));
+}
+
+// Reads the known fields out of an untyped metadata object, dropping anything
+// that doesn't fit the schema
+export function parseDocumentMetadata(raw: Record<string, unknown> | null | undefined): DocumentMetadata {
+  if (!raw) return {};
+  const category = pickString(raw, 'category')?.toLocaleLowerCase('tr-TR');
+  const language = pickString(raw, 'language', 'lang')?.toLowerCase();
+  const tags = parseTags(raw.tags);
+
+  return {
+    faculty: pickString(raw, 'faculty', 'department'),
+    category: category && category in CATEGORY_LABELS ? (category as DocumentCategory) : undefined,
+    language: language === 'tr' || language === 'en' ? language : undefined,
+    effective_date: pickDate(raw, 'effective_date'),
+    expiry_date: pickDate(raw, 'expiry_date'),
+    tags: tags.length > 0 ? tags : undefined,
+  };
+}
+
+// Later sources win field by field; empty values don't overwrite
+export function mergeMetadata(...sources: (DocumentMetadata | undefined)[]): DocumentMetadata {
+  const merged: DocumentMetadata = {};
+  sources.forEach((source) => {
+    if (!source) return;
+    (Object.keys(source) as (keyof DocumentMetadata)[]).forEach((key) => {
+      const value = source[key];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+      Object.assign(merged, { [key]: value });
+    });
+  });
+  return merged;
+}
+
+export function isEmptyMetadata(metadata: DocumentMetadata): boolean {
+  return Object.keys(mergeMetadata(metadata)).length === 0;
+}
+
+// "01.09.2025 – 31.08.2026" style validity range; open ends are left blank
+export function formatValidity(metadata: DocumentMetadata): string | null {
+  const format = (date?: string) => (date ? date.split('-').reverse().join('.') : '');
+  if (!metadata.effective_date && !metadata.expiry_date) return null;
+  return `${format(metadata.effective_date)} – ${format(metadata.expiry_date)}`.trim();
+}
+
+export function isSameMetadata(a: DocumentMetadata, b: DocumentMetadata): boolean {
+  const left = mergeMetadata(a);
+  const right = mergeMetadata(b);
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]) as Set<keyof DocumentMetadata>;
+  return [...keys].every((key) => JSON.stringify(left[key]) === JSON.stringify(right[key]));
+}
+
+const uniqueSorted = (values: (string | undefined)[]): string[] =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b, 'tr'));
+
+// Option lists for the faculty suggestions and the table filters
+export function getFacultyOptions(metadata: DocumentMetadata[]): string[] {
+  return uniqueSorted(metadata.map((meta) => meta.faculty));
+}
+
+export function getTagOptions(metadata: DocumentMetadata[]): string[] {
+  return uniqueSorted(metadata.flatMap((meta) => meta.tags ?? []));
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeSignature,
+  estimateSimilarity,
+  findExistingDuplicate,
+  findNearDuplicates,
+  getPairKey,
+  hashFile,
+  isBlockingDuplicate,
+} from './documentSimilarity';
+import type { DocumentInfo } from '../types';
+
+const doc = (id: string, fileName: string, fileSize: number, createdAt: string): DocumentInfo => ({
+  id,
+  file_name: fileName,
+  file_size: fileSize,
+  created_at: createdAt,
+  status: 'processed',
+});
+
+// Long enough that a few edited words leave most 3-word shingles intact
+const words = (seed: string, count: number) => Array.from({ length: count }, (_, i) => `${seed}${i % 97}x${i}`).join(' ');
+
+const regulation = `Madde 1 Bu yönetmeliğin amacı ${words('kayıt', 400)}`;
+const revised = regulation.replace('kayıt5x5', 'değişti').replace('kayıt50x50', 'eklendi');
+const unrelated = `Staj yönergesi ${words('staj', 400)}`;
+
+describe('findExistingDuplicate', () => {
+  const documents = [
+    doc('1', 'yonetmelik.pdf', 1000, '2025-01-01T00:00:00'),
+    doc('2', 'harc.pdf', 2000, '2025-01-02T00:00:00'),
+  ];
+  const file = (name: string, size: number) => new File([new Uint8Array(size)], name);
+
+  it('prefers a content hash over name and size', () => {
+    expect(findExistingDuplicate(file('kopya.pdf', 2000), 'abc', documents, { 'yonetmelik.pdf': 'abc' })).toEqual({
+      file_name: 'yonetmelik.pdf',
+      reason: 'hash',
+    });
+  });
+
+  it('falls back to the file name, then the size', () => {
+    expect(findExistingDuplicate(file('harc.pdf', 5), null, documents, {})).toEqual({ file_name: 'harc.pdf', reason: 'name' });
+    expect(findExistingDuplicate(file('yeni.pdf', 2000), 'def', documents, {})).toEqual({ file_name: 'harc.pdf', reason: 'size' });
+    expect(findExistingDuplicate(file('yeni.pdf', 3), 'def', documents, {})).toBeUndefined();
+  });
+
+  it('holds files back for every match but a size-only one', () => {
+    expect(isBlockingDuplicate({ file_name: 'a', reason: 'size' })).toBe(false);
+    expect(isBlockingDuplicate({ file_name: 'a', reason: 'name' })).toBe(true);
+    expect(isBlockingDuplicate({ file_name: 'a', reason: 'queue' })).toBe(true);
+    expect(isBlockingDuplicate(undefined)).toBe(false);
+  });
+});
+
+describe('hashFile', () => {
+  it('returns the hex SHA-256 of the content', async () => {
+    expect(await hashFile(new File(['abc'], 'a.txt'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('MinHash signatures', () => {
+  it('ignores case and punctuation', () => {
+    expect(computeSignature('Harç ödemesi, OBS üzerinden yapılır.')).toEqual(computeSignature('harç ödemesi obs üzerinden yapılır'));
+  });
+
+  it('is empty for texts too short to shingle', () => {
+    expect(computeSignature('iki kelime')).toEqual([]);
+    expect(estimateSimilarity([], [])).toBe(0);
+  });
+
+  it('estimates high similarity for a revision and low for an unrelated text', () => {
+    const original = computeSignature(regulation);
+    expect(estimateSimilarity(original, computeSignature(revised))).toBeGreaterThan(0.8);
+    expect(estimateSimilarity(original, computeSignature(unrelated))).toBeLessThan(0.2);
+  });
+});
+
+describe('findNearDuplicates', () => {
+  const older = doc('old', 'yonetmelik-2024.pdf', 1000, '2024-09-01T00:00:00');
+  const newer = doc('new', 'yonetmelik-2025.pdf', 1100, '2025-09-01T00:00:00');
+  const other = doc('other', 'staj.pdf', 900, '2025-02-01T00:00:00');
+  const signatures = {
+    old: computeSignature(regulation),
+    new: computeSignature(revised),
+    other: computeSignature(unrelated),
+  };
+
+  it('pairs similar documents oldest first and skips the rest', () => {
+    const pairs = findNearDuplicates([newer, other, older], signatures);
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ key: getPairKey('old', 'new'), older, newer });
+  });
+
+  it('leaves out documents without a signature', () => {
+    expect(findNearDuplicates([older, newer], { old: signatures.old })).toEqual([]);
+  });
+
+  it('builds the same pair key in either order', () => {
+    expect(getPairKey('b', 'a')).toBe(getPairKey('a', 'b'));
+  });
+});
@@ -0,0 +1,125 @@
+import type { DocumentInfo, UploadDuplicate } from '../types';
+
+// Exact duplicate checks for files about to be uploaded, and MinHash
+// fingerprints for spotting near-duplicate documents after processing.
+
+// Hex SHA-256 of the file, or null where Web Crypto is unavailable (plain
+// http outside localhost)
+export async function hashFile(file: File): Promise<string | null> {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Strongest match first: identical content, then same name, then same size.
+// Hashes are only known for files uploaded from this browser.
+export function findExistingDuplicate(
+  file: File,
+  hash: string | null,
+  documents: DocumentInfo[],
+  fileHashes: Record<string, string>
+): UploadDuplicate | undefined {
+  const byHash = hash ? documents.find((doc) => fileHashes[doc.file_name] === hash) : undefined;
+  if (byHash) return { file_name: byHash.file_name, reason: 'hash' };
+  const byName = documents.find((doc) => doc.file_name === file.name);
+  if (byName) return { file_name: byName.file_name, reason: 'name' };
+  const bySize = documents.find((doc) => doc.file_size === file.size);
+  if (bySize) return { file_name: bySize.file_name, reason: 'size' };
+  return undefined;
+}
+
+// A matching size alone is only shown as a hint; the other matches hold the
+// file back until the user confirms it
+export const isBlockingDuplicate = (duplicate: UploadDuplicate | undefined): boolean =>
+  !!duplicate && duplicate.reason !== 'size';
+
+const SIGNATURE_SIZE = 64;
+const SHINGLE_WORDS = 3;
+
+// Estimated Jaccard similarity above which two documents are flagged
+export const NEAR_DUPLICATE_THRESHOLD = 0.8;
+
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// murmur3 finalizer, seeded per signature slot to get independent hash functions
+const mix = (value: number, seed: number): number => {
+  let h = (value ^ Math.imul(seed, 0x9e3779b1)) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+// Word 3-gram MinHash signature; empty for texts too short to shingle
+export function computeSignature(text: string): number[] {
+  const words = text
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length < SHINGLE_WORDS) return [];
+
+  const shingles = new Set<number>();
+  for (let i = 0; i <= words.length - SHINGLE_WORDS; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    for (let slot = 0; slot < SIGNATURE_SIZE; slot++) {
+      const value = mix(shingle, slot + 1);
+      if (value < signature[slot]) signature[slot] = value;
+    }
+  });
+  return signature;
+}
+
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let same = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++;
+  }
+  return same / a.length;
+}
+
+export interface NearDuplicatePair {
+  key: string; // stable id for dismissing the pair
+  older: DocumentInfo;
+  newer: DocumentInfo;
+  similarity: number; // 0-1
+}
+
+export const getPairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Pairs of listed documents whose signatures are at least `threshold` similar,
+// most similar first
+export function findNearDuplicates(
+  documents: DocumentInfo[],
+  signatures: Record<string, number[]>,
+  threshold: number = NEAR_DUPLICATE_THRESHOLD
+): NearDuplicatePair[] {
+  const signed = documents.filter((doc) => (signatures[doc.id]?.length ?? 0) > 0);
+  const pairs: NearDuplicatePair[] = [];
+
+  for (let i = 0; i < signed.length; i++) {
+    for (let j = i + 1; j < signed.length; j++) {
+      const similarity = estimateSimilarity(signatures[signed[i].id], signatures[signed[j].id]);
+      if (similarity < threshold) continue;
+      const [older, newer] = new Date(signed[i].created_at) <= new Date(signed[j].created_at)
+        ? [signed[i], signed[j]]
+        : [signed[j], signed[i]];
+      pairs.push({ key: getPairKey(older.id, newer.id), older, newer, similarity });
+    }
+  }
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
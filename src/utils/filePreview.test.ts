@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildFilePreview } from './filePreview';
+
+const encoder = new TextEncoder();
+
+const deflate = async (text: string): Promise<Uint8Array> => {
+  const stream = new Blob([encoder.encode(text)]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Objects are numbered from 1 in the order given; a stream object is its
+// dictionary plus the raw stream bytes
+type PdfPart = string | { dict: string; data: Uint8Array | string };
+
+const buildPdf = (objects: PdfPart[], name = 'belge.pdf'): File => {
+  const parts: (string | Uint8Array)[] = ['%PDF-1.4\n'];
+  objects.forEach((object, index) => {
+    parts.push(`${index + 1} 0 obj\n`);
+    if (typeof object === 'string') {
+      parts.push(object);
+    } else {
+      const data = typeof object.data === 'string' ? encoder.encode(object.data) : object.data;
+      parts.push(`${object.dict.replace('>>', ` /Length ${data.length} >>`)}\nstream\n`, data, '\nendstream');
+    }
+    parts.push('\nendobj\n');
+  });
+  parts.push('%%EOF\n');
+  return new File(parts.map((part) => (typeof part === 'string' ? encoder.encode(part) : part)), name);
+};
+
+const pageTree = (pages: number[]) => [
+  '<< /Type /Catalog /Pages 2 0 R >>',
+  `<< /Type /Pages /Kids [${pages.map((n) => `${n} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+];
+
+describe('buildFilePreview for text files', () => {
+  it('reads markdown and plain text as is', async () => {
+    expect(await buildFilePreview(new File(['# Başlık\nMetin'], 'not.md'))).toEqual({
+      kind: 'markdown',
+      text: '# Başlık\nMetin',
+      issues: [],
+    });
+    expect((await buildFilePreview(new File(['Merhaba'], 'not.TXT'))).kind).toBe('text');
+  });
+
+  it('keeps only the start of long files', async () => {
+    const preview = await buildFilePreview(new File(['a'.repeat(10_000)], 'uzun.txt'));
+    expect(preview.text).toHaveLength(3000);
+  });
+
+  it('flags whitespace-only files as empty', async () => {
+    expect((await buildFilePreview(new File([' \n\t'], 'bos.txt'))).issues).toEqual(['empty']);
+  });
+
+  it('has no preview for other types', async () => {
+    expect(await buildFilePreview(new File(['x'], 'rapor.docx'))).toEqual({ kind: 'none', text: '', issues: [] });
+  });
+});
+
+describe('buildFilePreview for PDFs', () => {
+  it('extracts the first page text from a compressed stream and counts pages', async () => {
+    const file = buildPdf([
+      ...pageTree([3, 5]),
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+      {
+        dict: '<< /Filter /FlateDecode >>',
+        data: await deflate('BT /F1 12 Tf 72 700 Td (D\\374zenleme) Tj T* [(Son) -300 (tarih)] TJ ET'),
+      },
+      '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+      { dict: '<< >>', data: 'BT (Ikinci sayfa) Tj ET' },
+    ]);
+
+    expect(await buildFilePreview(file)).toEqual({
+      kind: 'pdf',
+      text: 'Düzenleme\nSon tarih',
+      page_count: 2,
+      issues: [],
+    });
+  });
+
+  it('reports image-only pages as scanned', async () => {
+    const file = buildPdf([
+      ...pageTree([3]),
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R /Resources << /XObject << /Im1 5 0 R >> >> >>',
+      { dict: '<< >>', data: 'q 600 0 0 800 0 0 cm /Im1 Do Q' },
+      { dict: '<< /Type /XObject /Subtype /Image /Filter /DCTDecode >>', data: 'jpeg' },
+    ]);
+
+    expect(await buildFilePreview(file)).toEqual({ kind: 'pdf', text: '', page_count: 1, issues: ['scanned'] });
+  });
+
+  it('hides text that a font encoding turned into symbols', async () => {
+    const file = buildPdf([
+      ...pageTree([3]),
+      '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>',
+      { dict: '<< >>', data: 'BT (\\001\\002\\003\\004\\005\\006) Tj ET' },
+    ]);
+
+    const preview = await buildFilePreview(file);
+    expect(preview.text).toBe('');
+    expect(preview.issues).toEqual(['unreadable']);
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    expect(await buildFilePreview(new File(['<html>'], 'sahte.pdf'))).toEqual({ kind: 'pdf', text: '', issues: ['unreadable'] });
+    expect((await buildFilePreview(new File([], 'bos.pdf'))).issues).toEqual(['empty']);
+  });
+});
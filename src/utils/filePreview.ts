@@ -0,0 +1,186 @@
+import type { FilePreview, FilePreviewIssue } from '../types';
+import { getFileExtension } from './index';
+
+// Pre-upload previews read entirely in the browser. Text and markdown files
+// are decoded as is; PDFs go through a small parser that inflates FlateDecode
+// streams and pulls the strings out of text operators. That is enough for a
+// page count, a rough first page and telling scanned PDFs apart, not for
+// faithful rendering.
+
+// Characters kept for the preview
+const PREVIEW_CHARS = 3000;
+// Upper bounds on the work done for one PDF
+const MAX_STREAMS = 500;
+const MAX_INFLATED_BYTES = 30 * 1024 * 1024;
+
+export async function buildFilePreview(file: File): Promise<FilePreview> {
+  const extension = getFileExtension(file.name).toLowerCase();
+  if (extension === 'txt' || extension === 'md') {
+    const text = await file.slice(0, PREVIEW_CHARS * 4).text();
+    return {
+      kind: extension === 'md' ? 'markdown' : 'text',
+      text: text.slice(0, PREVIEW_CHARS),
+      issues: text.trim() ? [] : ['empty'],
+    };
+  }
+  if (extension === 'pdf') return previewPdf(file);
+  return { kind: 'none', text: '', issues: file.size === 0 ? ['empty'] : [] };
+}
+
+interface PdfObject {
+  dict: string;
+  stream?: Uint8Array;
+}
+
+// windows-1252 maps every byte to one character, so string offsets match byte offsets
+const toLatin1 = (bytes: Uint8Array) => new TextDecoder('windows-1252').decode(bytes);
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array | null> => {
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+};
+
+const parseRefs = (value: string | undefined): number[] =>
+  value ? Array.from(value.matchAll(/(\d+)\s+\d+\s+R/g), (match) => Number(match[1])) : [];
+
+const getEntry = (dict: string, key: string): string | undefined =>
+  dict.match(new RegExp(`/${key}(?!\\w)\\s*(\\[[^\\]]*\\]|\\d+\\s+\\d+\\s+R|/?[\\w.]+)`))?.[1];
+
+const isPage = (dict: string) => /\/Type\s*\/Page(?![a-zA-Z])/.test(dict);
+
+// Objects of a compressed object stream: "num offset" pairs, then the bodies
+const readObjectStream = (dict: string, content: string, objects: Map<number, PdfObject>) => {
+  const count = Number(getEntry(dict, 'N'));
+  const first = Number(getEntry(dict, 'First'));
+  if (!count || !first) return;
+  const header = content.slice(0, first).trim().split(/\s+/).map(Number);
+  for (let i = 0; i < count; i++) {
+    const start = first + header[i * 2 + 1];
+    const end = i + 1 < count ? first + header[i * 2 + 3] : content.length;
+    if (!objects.has(header[i * 2])) objects.set(header[i * 2], { dict: content.slice(start, end) });
+  }
+};
+
+const readObjects = async (bytes: Uint8Array, raw: string) => {
+  const objects = new Map<number, PdfObject>();
+  let inflatedBytes = 0;
+  let streams = 0;
+  let hasImages = false;
+
+  for (const match of raw.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endobj', start);
+    if (end === -1) continue;
+    const body = raw.slice(start, end);
+    const streamAt = body.search(/\bstream\r?\n/);
+    if (streamAt === -1) {
+      objects.set(Number(match[1]), { dict: body });
+      continue;
+    }
+
+    const dict = body.slice(0, streamAt);
+    if (/\/Subtype\s*\/Image/.test(dict)) hasImages = true;
+    const dataStart = start + streamAt + body.slice(streamAt).indexOf('\n') + 1;
+    const dataEnd = raw.lastIndexOf('endstream', end);
+    let data: Uint8Array | null = bytes.subarray(dataStart, Math.max(dataStart, dataEnd));
+
+    if (/\/FlateDecode/.test(dict)) {
+      data = streams < MAX_STREAMS && inflatedBytes < MAX_INFLATED_BYTES ? await inflate(data) : null;
+      streams++;
+      inflatedBytes += data?.length ?? 0;
+    } else if (/\/Filter/.test(dict)) {
+      data = null; // image codecs and the like; nothing to read for text
+    }
+
+    objects.set(Number(match[1]), { dict, stream: data ?? undefined });
+    if (data && /\/Type\s*\/ObjStm/.test(dict)) readObjectStream(dict, toLatin1(data), objects);
+  }
+  return { objects, hasImages };
+};
+
+// Follows the page tree from the catalog down its first branch
+const findFirstPage = (objects: Map<number, PdfObject>): PdfObject | undefined => {
+  const root = [...objects.values()].find((obj) => /\/Type\s*\/Pages\b/.test(obj.dict) && !/\/Parent\b/.test(obj.dict));
+  let node = root;
+  for (let depth = 0; node && !isPage(node.dict) && depth < 32; depth++) {
+    node = objects.get(parseRefs(getEntry(node.dict, 'Kids'))[0]);
+  }
+  return node && isPage(node.dict) ? node : undefined;
+};
+
+const countPages = (objects: Map<number, PdfObject>): number => {
+  const counts = [...objects.values()]
+    .filter((obj) => /\/Type\s*\/Pages\b/.test(obj.dict))
+    .map((obj) => Number(getEntry(obj.dict, 'Count')) || 0);
+  return counts.length > 0 ? Math.max(...counts) : [...objects.values()].filter((obj) => isPage(obj.dict)).length;
+};
+
+const LITERAL_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+const decodeLiteral = (value: string) =>
+  value.replace(/\\(\d{1,3}|[nrtbf()\\]|\r?\n)/g, (_, code: string) => {
+    if (/^\d/.test(code)) return String.fromCharCode(parseInt(code, 8));
+    if (code.startsWith('\n') || code.startsWith('\r')) return '';
+    return LITERAL_ESCAPES[code] ?? code;
+  });
+
+// Strings drawn by Tj, TJ, ' and " inside BT/ET blocks. Hex strings are
+// skipped: with embedded CID fonts they hold glyph ids, not characters.
+const extractText = (content: string): string => {
+  let text = '';
+  const tokens = content.matchAll(/\((?:\\[\s\S]|[^\\)])*\)|T[Jj*]|T[dD]|'|"|-?\d*\.?\d+|BT|ET/g);
+  for (const [token] of tokens) {
+    if (token.startsWith('(')) {
+      text += decodeLiteral(token.slice(1, -1));
+    } else if (token === 'T*' || token === "'" || token === '"' || token === 'ET') {
+      text += '\n';
+    } else if (token === 'Td' || token === 'TD') {
+      text += ' ';
+    } else if (/^-\d{3,}/.test(token)) {
+      // Large negative TJ kerning marks a word gap
+      text += ' ';
+    }
+  }
+  return text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+const hasTextOperators = (content: string) => /\bBT\b[\s\S]*?(Tj|TJ|'|")[\s\S]*?\bET\b/.test(content);
+
+// Mostly letters, digits and whitespace; otherwise the font encoding defeated us
+const isReadable = (text: string) => {
+  if (!text) return false;
+  const readable = text.match(/[\p{L}\p{N}\s.,;:!?()-]/gu)?.length ?? 0;
+  return readable / text.length > 0.8;
+};
+
+async function previewPdf(file: File): Promise<FilePreview> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const raw = toLatin1(bytes);
+  if (!raw.startsWith('%PDF')) return { kind: 'pdf', text: '', issues: [file.size === 0 ? 'empty' : 'unreadable'] };
+
+  const { objects, hasImages } = await readObjects(bytes, raw);
+  const contentOf = (obj: PdfObject) => (obj.stream ? toLatin1(obj.stream) : '');
+  const pageContents = [...objects.values()].filter((obj) => obj.stream && hasTextOperators(contentOf(obj)));
+
+  const firstPage = findFirstPage(objects);
+  const firstPageContent = firstPage
+    ? parseRefs(getEntry(firstPage.dict, 'Contents')).map((ref) => objects.get(ref)).filter((obj): obj is PdfObject => !!obj).map(contentOf).join('\n')
+    : pageContents[0] && contentOf(pageContents[0]);
+  const text = extractText(firstPageContent ?? '').slice(0, PREVIEW_CHARS);
+
+  const readable = isReadable(text);
+
+  const issues: FilePreviewIssue[] = [];
+  if (pageContents.length === 0) issues.push(hasImages ? 'scanned' : 'empty');
+  else if (text && !readable) issues.push('unreadable');
+
+  return { kind: 'pdf', text: readable ? text : '', page_count: countPages(objects), issues };
+}
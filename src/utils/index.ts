@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from 'clsx';
 import { format, formatDistanceToNow, isToday, isYesterday } from 'date-fns';
+import type { ChatSource } from '../types';
 
 // Utility function to combine class names
 export function cn(...inputs: ClassValue[]) {
@@ -36,6 +37,32 @@ export function formatRelativeTime(date: string | Date): string {
   return formatDistanceToNow(dateObj, { addSuffix: true });
 }
 
+// Format the time between two timestamps, e.g. "2 dk 05 sn"
+export function formatDuration(start: string | Date, end: string | Date): string {
+  const ms = new Date(end).getTime() - new Date(start).getTime();
+  if (!Number.isFinite(ms) || ms < 0) return '-';
+
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) return `${hours} sa ${minutes.toString().padStart(2, '0')} dk`;
+  if (minutes > 0) return `${minutes} dk ${seconds.toString().padStart(2, '0')} sn`;
+  return `${seconds} sn`;
+}
+
+// Save text as a file through a temporary object URL
+export function downloadTextFile(fileName: string, content: string, type = 'text/plain'): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 10 * 1000);
+}
+
 // Truncate text
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
@@ -94,4 +121,26 @@ export function getInitials(name: string): string {
     .join('')
     .toUpperCase()
     .slice(0, 2);
-} 
\ No newline at end of file
+}
+
+// Pull display fields out of a chat answer source. Key names differ between
+// backend versions, so the common aliases are checked in order.
+export function getSourceInfo(source: ChatSource): {
+  fileName: string;
+  article: string | null;
+  snippet: string | null;
+} {
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = source[key];
+      if (typeof value === 'string' && value.trim()) return value.trim();
+    }
+    return null;
+  };
+
+  return {
+    fileName: pick('source', 'file_name', 'filename', 'document', 'title') ?? 'Bilinmeyen kaynak',
+    article: pick('article', 'section', 'madde'),
+    snippet: pick('content', 'chunk', 'text', 'snippet'),
+  };
+}
@@ -0,0 +1,39 @@
+// Client-side JWT claim decoding. The signature is NOT verified here; claims
+// are only used for UI decisions (expiry warnings, display), never for access.
+
+export interface JwtClaims {
+  sub?: string;
+  email?: string;
+  role?: string;
+  exp?: number; // seconds since epoch
+  iat?: number;
+  [key: string]: unknown;
+}
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const bytes = Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Returns null for anything that is not a well-formed JWT with an object payload
+export function decodeJwtClaims(token: string | null | undefined): JwtClaims | null {
+  if (!token) return null;
+  const parts = token.split('.');
+  if (parts.length !== 3 || !parts[1]) return null;
+
+  try {
+    const payload: unknown = JSON.parse(decodeBase64Url(parts[1]));
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return null;
+    return payload as JwtClaims;
+  } catch {
+    return null;
+  }
+}
+
+// Expiry in epoch milliseconds, or null when the token carries no usable `exp`
+export function getTokenExpiry(token: string | null | undefined): number | null {
+  const exp = decodeJwtClaims(token)?.exp;
+  return typeof exp === 'number' && Number.isFinite(exp) ? exp * 1000 : null;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { parseMarkdown, type BlockNode, type InlineNode } from './markdown';
+
+const parseStreaming = (markdown: string): BlockNode[] =>
+  parseMarkdown(markdown, { streaming: true }).map((block) => block.node);
+
+// Inline nodes of a single-paragraph answer
+const inlineOf = (markdown: string): InlineNode[] => {
+  const [block] = parseStreaming(markdown);
+  if (block?.type !== 'paragraph') throw new Error(`expected a paragraph, got ${block?.type}`);
+  return block.children;
+};
+
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === 'text' || node.type === 'code') return node.value;
+      if (node.type === 'break') return '\n';
+      return inlineText(node.children);
+    })
+    .join('');
+
+// What the reader sees, without any markup
+const blockText = (node: BlockNode): string => {
+  switch (node.type) {
+    case 'paragraph':
+    case 'heading':
+      return inlineText(node.children);
+    case 'list':
+      return node.items.map((item) => inlineText(item.children)).join('\n');
+    case 'code':
+      return node.value;
+    case 'blockquote':
+      return node.children.map(blockText).join('\n');
+    case 'table':
+      return [node.header, ...node.rows].map((row) => row.map(inlineText).join(' ')).join('\n');
+    case 'hr':
+      return '';
+  }
+};
+
+describe('parseMarkdown while streaming', () => {
+  it('closes an unclosed ** at the end of the text', () => {
+    expect(inlineOf('Son başvuru **15 Eylül')).toEqual([
+      { type: 'text', value: 'Son başvuru ' },
+      { type: 'strong', children: [{ type: 'text', value: '15 Eylül' }] },
+    ]);
+  });
+
+  it('hides a trailing ** that has no content yet', () => {
+    expect(inlineOf('Son başvuru **')).toEqual([{ type: 'text', value: 'Son başvuru ' }]);
+  });
+
+  it('shows only the label of a half-received link', () => {
+    for (const partial of ['[Öğrenci İşleri', '[Öğrenci İşleri]', '[Öğrenci İşleri](ht', '[Öğrenci İşleri](https://obs.example.edu/ur']) {
+      const nodes = inlineOf(`Bkz. ${partial}`);
+      expect(nodes.every((node) => node.type === 'text')).toBe(true);
+      expect(inlineText(nodes)).toBe('Bkz. Öğrenci İşleri');
+    }
+  });
+
+  it('renders a completed link', () => {
+    expect(inlineOf('[OBS](https://obs.example.edu)')).toEqual([
+      { type: 'link', href: 'https://obs.example.edu', children: [{ type: 'text', value: 'OBS' }] },
+    ]);
+  });
+
+  it('holds back a last line that is only a block marker', () => {
+    expect(parseStreaming('Adımlar:\n1.')).toEqual([{ type: 'paragraph', children: [{ type: 'text', value: 'Adımlar:' }] }]);
+    expect(parseStreaming('##')).toEqual([]);
+    expect(parseMarkdown('##').map((block) => block.node)).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', value: '##' }] },
+    ]);
+  });
+
+  it('keeps the items of a list cut off mid-item', () => {
+    expect(parseStreaming('1. Dilekçe\n2. Harç **dek')).toEqual([
+      {
+        type: 'list',
+        ordered: true,
+        start: 1,
+        items: [
+          { depth: 0, children: [{ type: 'text', value: 'Dilekçe' }] },
+          {
+            depth: 0,
+            children: [
+              { type: 'text', value: 'Harç ' },
+              { type: 'strong', children: [{ type: 'text', value: 'dek' }] },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('drops javascript: links to their label', () => {
+    expect(inlineOf('[tıkla](javascript:void)')).toEqual([{ type: 'text', value: 'tıkla' }]);
+    const nodes = inlineOf('[tıkla](JavaScript:alert%281%29) ve [form](data:text/html,x)');
+    expect(nodes.every((node) => node.type === 'text')).toBe(true);
+    expect(inlineText(nodes)).toBe('tıkla ve form');
+  });
+
+  it('keeps raw HTML as text', () => {
+    expect(inlineOf('<img src=x onerror="alert(1)"> <b>kalın</b>')).toEqual([
+      { type: 'text', value: '<img src=x onerror="alert(1)"> <b>kalın</b>' },
+    ]);
+  });
+
+  it('grows prefix by prefix without flickering between forms', () => {
+    const answer = [
+      '## Kayıt yenileme',
+      '',
+      'Harç ödemesi **15 Eylül** tarihine kadar [OBS](https://obs.example.edu) üzerinden yapılır.',
+      '',
+      '- Dilekçe *imzalı* olmalı',
+      '- `IBAN` bilgisi',
+      '',
+      '> Not: geç ödemeler kabul edilmez.',
+    ].join('\n');
+    const finalBlocks = parseStreaming(answer);
+    const finalText = finalBlocks.map(blockText).join('\n');
+
+    for (let length = 1; length <= answer.length; length++) {
+      const blocks = parseStreaming(answer.slice(0, length));
+      const text = blocks.map(blockText).join('\n');
+
+      // Raw markers never reach the reader, and text already shown is never
+      // replaced by something else
+      expect(text).not.toMatch(/\*|\[|\]\(|`/);
+      expect(finalText.startsWith(text.trimEnd()), `prefix ${length}: ${JSON.stringify(text)}`).toBe(true);
+      // Finished blocks keep their final form while later ones stream in
+      blocks.slice(0, -1).forEach((block, index) => expect(block).toEqual(finalBlocks[index]));
+    }
+  });
+});
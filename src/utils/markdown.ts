@@ -0,0 +1,351 @@
+// Minimal markdown parser for assistant answers.
+//
+// Produces a small AST that is rendered with React elements only, so raw HTML
+// in an answer is always shown as text. Supports the subset the RAG backend
+// emits: paragraphs, headings, ordered/unordered lists, tables, fenced code,
+// blockquotes, rules, bold/italic/inline code, links and bare URLs.
+//
+// With `streaming: true` the tail of the last block is treated as incomplete:
+// unclosed emphasis/code is closed at the end of the text and half-received
+// links are shown as plain text, so partial answers don't flash raw markers.
+
+export type InlineNode =
+  | { type: 'text'; value: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'em'; children: InlineNode[] }
+  | { type: 'code'; value: string }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  depth: number;
+  children: InlineNode[];
+}
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'code'; lang: string; value: string }
+  | { type: 'blockquote'; children: BlockNode[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineNode[][]; rows: InlineNode[][][] }
+  | { type: 'hr' };
+
+// A parsed block together with the source lines it came from. The source lets
+// renderers skip blocks that did not change between streaming updates.
+export interface MarkdownBlock {
+  node: BlockNode;
+  source: string;
+}
+
+export interface MarkdownOptions {
+  streaming?: boolean;
+}
+
+const SAFE_URL = /^(https?:|mailto:|tel:)/i;
+const BARE_URL = /^https?:\/\/[^\s<>()]+/i;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|>~]/;
+
+const FENCE = /^\s*(```|~~~)\s*([\w+-]*)\s*$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+// A last line holding only the start of a heading, list item or rule
+const PARTIAL_MARKER = /^\s*(#{1,6}|[-*+_]{1,2}|\d{1,9}[.)]?)$/;
+
+export function isSafeUrl(href: string): boolean {
+  return SAFE_URL.test(href.trim());
+}
+
+const pushText = (nodes: InlineNode[], value: string) => {
+  if (!value) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') last.value += value;
+  else nodes.push({ type: 'text', value });
+};
+
+// Find the closing delimiter, skipping escaped characters
+const findClosing = (text: string, delimiter: string, from: number): number => {
+  for (let i = from; i <= text.length - delimiter.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+    if (text.startsWith(delimiter, i)) {
+      // A single `*` must not match the first half of `**`
+      if (delimiter.length === 1 && text[i + 1] === delimiter) {
+        i++;
+        continue;
+      }
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Strip punctuation that usually ends a sentence rather than the URL
+const trimUrl = (url: string): string => url.replace(/[.,;:!?'"]+$/, '');
+
+export function parseInline(text: string, streaming: boolean = false): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    // Escaped punctuation
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    // Inline code
+    if (ch === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) {
+        nodes.push({ type: 'code', value: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+      if (streaming) {
+        if (i + 1 < text.length) nodes.push({ type: 'code', value: text.slice(i + 1) });
+        break;
+      }
+    }
+
+    // Bold / italic
+    if (ch === '*' || ch === '_') {
+      const delimiter = text[i + 1] === ch ? ch + ch : ch;
+      const contentStart = i + delimiter.length;
+      const opensWord = contentStart < text.length && !/\s/.test(text[contentStart]);
+      // `_` inside words (snake_case, file_names) is not emphasis
+      const intraword = ch === '_' && i > 0 && /\w/.test(text[i - 1]);
+
+      if (opensWord && !intraword) {
+        const end = findClosing(text, delimiter, contentStart);
+        const type = delimiter.length === 2 ? 'strong' : 'em';
+
+        if (end > contentStart) {
+          nodes.push({ type, children: parseInline(text.slice(contentStart, end), streaming) });
+          i = end + delimiter.length;
+          continue;
+        }
+        if (end === -1 && streaming) {
+          nodes.push({ type, children: parseInline(text.slice(contentStart), streaming) });
+          break;
+        }
+      } else if (streaming && contentStart >= text.length) {
+        // A marker at the very end has not been followed by its content yet
+        break;
+      }
+    }
+
+    // Links
+    if (ch === '[') {
+      const match = /^\[([^\]\n]*)\]\(([^)\s]*)\)/.exec(rest);
+      if (match) {
+        const [whole, label, href] = match;
+        if (isSafeUrl(href)) {
+          nodes.push({ type: 'link', href, children: parseInline(label, streaming) });
+        } else {
+          nodes.push(...parseInline(label, streaming));
+        }
+        i += whole.length;
+        continue;
+      }
+
+      // Link still arriving: show the label only
+      const partial = /^\[([^\]\n]*)(\](\([^)\s]*)?)?$/.exec(rest);
+      if (streaming && partial) {
+        nodes.push(...parseInline(partial[1], streaming));
+        break;
+      }
+    }
+
+    // Bare URLs
+    if ((ch === 'h' || ch === 'H') && (i === 0 || /[\s(]/.test(text[i - 1]))) {
+      const match = BARE_URL.exec(rest);
+      if (match) {
+        const url = trimUrl(match[0]);
+        nodes.push({ type: 'link', href: url, children: [{ type: 'text', value: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    pushText(nodes, ch);
+    i++;
+  }
+
+  return nodes;
+}
+
+// Inline content spanning several source lines; single newlines are kept
+const parseLines = (lines: string[], streaming: boolean): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  lines.forEach((line, index) => {
+    if (index > 0) nodes.push({ type: 'break' });
+    nodes.push(...parseInline(line.trim(), streaming && index === lines.length - 1));
+  });
+  return nodes;
+};
+
+const splitTableRow = (line: string): string[] => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const parseAlign = (cell: string): TableAlign => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+const isTableStart = (lines: string[], index: number): boolean =>
+  lines[index].includes('|') && index + 1 < lines.length && TABLE_SEPARATOR.test(lines[index + 1]) &&
+  lines[index + 1].includes('-');
+
+// Lines that interrupt a paragraph
+const startsBlock = (lines: string[], index: number): boolean => {
+  const line = lines[index];
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) ||
+    LIST_ITEM.test(line) || isTableStart(lines, index);
+};
+
+export function parseMarkdown(markdown: string, options: MarkdownOptions = {}): MarkdownBlock[] {
+  const streaming = options.streaming ?? false;
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  // Until more text arrives it is unclear which block the marker opens
+  if (streaming && lines.length > 0 && PARTIAL_MARKER.test(lines[lines.length - 1])) lines.pop();
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  const push = (node: BlockNode, start: number, end: number) => {
+    blocks.push({ node, source: lines.slice(start, end).join('\n') });
+  };
+
+  // Only the block that reaches the end of the text can be incomplete
+  let lastContentLine = lines.length - 1;
+  while (lastContentLine >= 0 && !lines[lastContentLine].trim()) lastContentLine--;
+  const isTail = (end: number) => streaming && end > lastContentLine;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const start = i;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code; an unterminated fence runs to the end of the text
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i++;
+      }
+      if (i < lines.length) i++;
+      push({ type: 'code', lang: fence[2], value: body.join('\n') }, start, i);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      i++;
+      push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2], isTail(i)) }, start, i);
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      i++;
+      push({ type: 'hr' }, start, i);
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i])![1]);
+        i++;
+      }
+      const children = parseMarkdown(quoted.join('\n'), { streaming: isTail(i) }).map((b) => b.node);
+      push({ type: 'blockquote', children }, start, i);
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(parseAlign);
+      i += 2;
+      const rows: InlineNode[][][] = [];
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+        const tail = isTail(i + 1);
+        rows.push(splitTableRow(lines[i]).map((cell) => parseInline(cell, tail)));
+        i++;
+      }
+      push({ type: 'table', align, header: header.map((cell) => parseInline(cell)), rows }, start, i);
+      continue;
+    }
+
+    const firstItem = LIST_ITEM.exec(line);
+    if (firstItem) {
+      const ordered = /\d/.test(firstItem[2]);
+      const baseIndent = firstItem[1].length;
+      const itemLines: { depth: number; lines: string[] }[] = [];
+
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item) {
+          const indent = item[1].length;
+          // A top-level marker of the other kind starts a new list
+          if (indent <= baseIndent && /\d/.test(item[2]) !== ordered) break;
+          itemLines.push({ depth: Math.max(0, Math.floor((indent - baseIndent) / 2)), lines: [item[3]] });
+          i++;
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && itemLines.length > 0) {
+          // Indented continuation of the previous item
+          itemLines[itemLines.length - 1].lines.push(lines[i]);
+          i++;
+        } else if (lines[i].trim() && itemLines.length > 0 && !startsBlock(lines, i) && lines[i - 1].trim()) {
+          // Lazy continuation line
+          itemLines[itemLines.length - 1].lines.push(lines[i]);
+          i++;
+        } else {
+          break;
+        }
+      }
+
+      const tail = isTail(i);
+      const items = itemLines.map((item, index) => ({
+        depth: item.depth,
+        children: parseLines(item.lines, tail && index === itemLines.length - 1),
+      }));
+      push({ type: 'list', ordered, start: ordered ? parseInt(firstItem[2], 10) : 1, items }, start, i);
+      continue;
+    }
+
+    // Paragraph
+    const paragraph: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    push({ type: 'paragraph', children: parseLines(paragraph, isTail(i)) }, start, i);
+  }
+
+  return blocks;
+}
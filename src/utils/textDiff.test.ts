@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './textDiff';
+
+const lines = (count: number, prefix: string) => Array.from({ length: count }, (_, i) => `${prefix} ${i}`);
+
+describe('diffLines', () => {
+  it('reports no changes for identical texts', () => {
+    const diff = diffLines('a\nb', 'a\nb');
+    expect(diff).toEqual({
+      lines: [{ type: 'same', text: 'a' }, { type: 'same', text: 'b' }],
+      added: 0,
+      removed: 0,
+      truncated: false,
+    });
+  });
+
+  it('finds changed lines between a shared prefix and suffix', () => {
+    const diff = diffLines('Madde 1\nHarç 500 TL\nMadde 3', 'Madde 1\nHarç 750 TL\nYeni madde\nMadde 3');
+    expect(diff.lines).toEqual([
+      { type: 'same', text: 'Madde 1' },
+      { type: 'removed', text: 'Harç 500 TL' },
+      { type: 'added', text: 'Harç 750 TL' },
+      { type: 'added', text: 'Yeni madde' },
+      { type: 'same', text: 'Madde 3' },
+    ]);
+    expect(diff.added).toBe(2);
+    expect(diff.removed).toBe(1);
+  });
+
+  it('keeps common lines inside the changed region', () => {
+    const diff = diffLines('a\nx\nb\ny\nc', 'a\nb\nz\nc');
+    expect(diff.lines.filter((line) => line.type === 'same').map((line) => line.text)).toEqual(['a', 'b', 'c']);
+    expect(diff.removed).toBe(2);
+    expect(diff.added).toBe(1);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffLines('', 'yeni').lines).toEqual([
+      { type: 'removed', text: '' },
+      { type: 'added', text: 'yeni' },
+    ]);
+  });
+
+  it('falls back to one removed and one added block past the table cap', () => {
+    const before = ['başlık', ...lines(2100, 'eski'), 'son'].join('\n');
+    const after = ['başlık', ...lines(2100, 'yeni'), 'son'].join('\n');
+    const diff = diffLines(before, after);
+
+    expect(diff.truncated).toBe(true);
+    expect(diff.lines[0]).toEqual({ type: 'same', text: 'başlık' });
+    expect(diff.lines[1]).toEqual({ type: 'removed', text: 'eski 0' });
+    expect(diff.lines[2101]).toEqual({ type: 'added', text: 'yeni 0' });
+    expect(diff.lines[diff.lines.length - 1]).toEqual({ type: 'same', text: 'son' });
+    expect([diff.added, diff.removed]).toEqual([2100, 2100]);
+  });
+
+  it('stays under the cap when only a small region changed in a long text', () => {
+    const shared = lines(5000, 'satır');
+    const after = [...shared];
+    after[2500] = 'değişti';
+    const diff = diffLines(shared.join('\n'), after.join('\n'));
+    expect(diff.truncated).toBe(false);
+    expect([diff.added, diff.removed]).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,89 @@
+// Line-based text diff for comparing document versions
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  added: number;
+  removed: number;
+  // The changed region was too large for a line-by-line match and is shown
+  // as one removed block followed by one added block
+  truncated: boolean;
+}
+
+// Upper bound on the LCS table (rows × columns) after trimming the common
+// prefix and suffix; ~16 MB of Uint32
+const MAX_TABLE_CELLS = 4_000_000;
+
+export function diffLines(before: string, after: string): TextDiff {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head: DiffLine[] = a.slice(0, start).map((text) => ({ type: 'same', text }));
+  const tail: DiffLine[] = a.slice(endA).map((text) => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  let middle: DiffLine[];
+  let truncated = false;
+  if ((midA.length + 1) * (midB.length + 1) > MAX_TABLE_CELLS) {
+    truncated = true;
+    middle = [
+      ...midA.map((text): DiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): DiffLine => ({ type: 'added', text })),
+    ];
+  } else {
+    middle = lcsDiff(midA, midB);
+  }
+
+  const lines = [...head, ...middle, ...tail];
+  return {
+    lines,
+    added: lines.filter((line) => line.type === 'added').length,
+    removed: lines.filter((line) => line.type === 'removed').length,
+    truncated,
+  };
+}
+
+function lcsDiff(a: string[], b: string[]): DiffLine[] {
+  const cols = b.length + 1;
+  // table[i * cols + j] = LCS length of a[i..] and b[j..]
+  const table = new Uint32Array((a.length + 1) * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i * cols + j] = a[i] === b[j]
+        ? table[(i + 1) * cols + j + 1] + 1
+        : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+      result.push({ type: 'removed', text: a[i++] });
+    } else {
+      result.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) result.push({ type: 'added', text: b[j++] });
+  return result;
+}
@@ -1,6 +1,12 @@
 /// <reference types="vite/client" />
 
 declare global {
+  interface ImportMetaEnv {
+    readonly VITE_API_BASE_URL?: string;
+    readonly VITE_ENABLE_VOICE?: string;
+    readonly VITE_ENABLE_STREAMING?: string;
+  }
+
   namespace JSX {
     interface IntrinsicElements {
       'dotlottie-player': React.DetailedHTMLProps<React.HTMLAttributes<HTMLElement>, HTMLElement> & {